@@ -1,89 +1,363 @@
-import { getDay, setHours, setMinutes, setSeconds, setMilliseconds } from 'date-fns';
-import { formatInTimeZone } from 'date-fns-tz';
-import { getNextWorkingDay, getTodayUK } from './dateCalculations.js';
+import { format, parseISO } from 'date-fns';
+import { formatInTimeZone, zonedTimeToUtc } from 'date-fns-tz';
+import {
+  calculateWorkingDays,
+  getNextWorkingDay,
+  getToday,
+  getWorkingDaysBetween,
+  isWorkingDay,
+  resolveTimezone,
+} from './dateCalculations.js';
+import { CalendarOptions } from './bankHolidays.js';
+import { config } from './config.js';
+import { parseDateRequest, ParsedDateRequest } from './dateParser.js';
+import { applyDuePolicy, constrainDueDay, resolveDuePolicy } from './duePolicies.js';
+import { SprintCadence } from './sprints.js';
 
-const UK_TIMEZONE = 'Europe/London';
-const ASANA_DUE_HOUR = 16; // 4:00 PM
+export interface AsanaDueOptions {
+  /** Named due-date policy. Default: the DUE_POLICY_FILE default, or "asana" */
+  policy?: string;
+  /** Due hour (0-23) when the request names no time; beats the policy's hours. Default: the policy's, then ASANA_DUE_HOUR */
+  dueHour?: number;
+}
+
+export interface AsanaDateOptions extends AsanaDueOptions {
+  /** Needed for "end of sprint" */
+  sprint?: SprintCadence;
+}
+
+export interface AsanaDueDateResult {
+  dueDate: Date;
+  policy: string;
+  /** e.g. "1 working day after 2026-10-16 (2026-10-19) at 16:00" */
+  interpretation: string;
+}
+
+// The instant a calendar date reaches a wall-clock time in the timezone
+function atTimeInZone(day: Date, hours: number, minutes: number, timezone: string): Date {
+  const time = `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:00`;
+  return zonedTimeToUtc(`${format(day, 'yyyy-MM-dd')}T${time}`, timezone);
+}
+
+function formatTime(hours: number, minutes: number): string {
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
 
 /**
- * Get Asana due date following James's rules:
- * - Next working day at 4:00 PM
- * - If today is Friday, return Monday at 4:00 PM
+ * Get Asana due date by a due-date policy. The built-in "asana" policy
+ * follows James's rules: next working day at the due hour (ASANA_DUE_HOUR,
+ * 4:00 PM by default), so Friday → Monday.
+ * The result is an instant: the due hour in the calendar's timezone.
  */
-export async function getAsanaDueDate(fromDate?: Date): Promise<Date> {
-  const startDate = fromDate || getTodayUK();
-  const dayOfWeek = getDay(startDate);
-  
-  let dueDate: Date;
-  
-  // If Friday (5), skip to Monday
-  if (dayOfWeek === 5) {
-    dueDate = await getNextWorkingDay(startDate);
-    // Get the next working day after that (Monday)
-    dueDate = await getNextWorkingDay(dueDate);
-  } else {
-    dueDate = await getNextWorkingDay(startDate);
-  }
-  
-  // Set time to 4:00 PM
-  dueDate = setHours(dueDate, ASANA_DUE_HOUR);
-  dueDate = setMinutes(dueDate, 0);
-  dueDate = setSeconds(dueDate, 0);
-  dueDate = setMilliseconds(dueDate, 0);
-  
-  return dueDate;
+export async function getAsanaDueDate(
+  fromDate?: Date,
+  calendar: CalendarOptions = {},
+  options: AsanaDueOptions = {}
+): Promise<AsanaDueDateResult> {
+  const timezone = resolveTimezone(calendar);
+  const due = await applyDuePolicy(fromDate, calendar, options);
+
+  return {
+    dueDate: atTimeInZone(due.day, due.hour, 0, timezone),
+    policy: due.policy,
+    interpretation: `${due.steps.join(', ')} at ${formatTime(due.hour, 0)} ("${due.policy}" policy)`,
+  };
 }
 
 /**
  * Format date for Asana API (ISO 8601 with timezone)
  */
-export function formatAsanaDate(date: Date): string {
-  return formatInTimeZone(date, UK_TIMEZONE, "yyyy-MM-dd'T'HH:mm:ssXXX");
+export function formatAsanaDate(date: Date, timezone: string = config.timezone): string {
+  return formatInTimeZone(date, timezone, "yyyy-MM-dd'T'HH:mm:ssXXX");
+}
+
+/**
+ * Calendar date of a due instant in the timezone (yyyy-MM-dd)
+ */
+export function formatAsanaDay(date: Date, timezone: string = config.timezone): string {
+  return formatInTimeZone(date, timezone, 'yyyy-MM-dd');
+}
+
+/**
+ * Timestamp for Asana's start_at and due_at (UTC, e.g. 2025-01-06T16:00:00Z)
+ */
+export function formatAsanaTimestamp(date: Date): string {
+  return formatInTimeZone(date, 'UTC', "yyyy-MM-dd'T'HH:mm:ss'Z'");
 }
 
 /**
  * Format date for human-readable Asana descriptions
  */
-export function formatAsanaDisplayDate(date: Date): string {
-  return formatInTimeZone(date, UK_TIMEZONE, 'EEEE, MMMM d, yyyy \'at\' h:mm a');
+export function formatAsanaDisplayDate(date: Date, timezone: string = config.timezone): string {
+  return formatInTimeZone(date, timezone, 'EEEE, MMMM d, yyyy \'at\' h:mm a');
+}
+
+export interface AsanaDateRequestResult {
+  dueDate: Date;
+  policy: string;
+  parsed: ParsedDateRequest;
+  /** e.g. "3 calendar days from 2026-10-18, then rolled to next working day at 16:00" */
+  interpretation: string;
+  /** Every reasonable reading of an ambiguous request, the chosen one first */
+  candidates: Array<{ dueDate: Date; interpretation: string }>;
+}
+
+// Move a parsed date off a non-working day in the direction the request implies
+async function rollToWorkingDay(date: Date, roll: ParsedDateRequest['roll'], calendar: CalendarOptions): Promise<Date> {
+  if (roll === 'none' || await isWorkingDay(date, calendar)) {
+    return date;
+  }
+  return roll === 'backward'
+    ? await calculateWorkingDays(date, 1, 'backward', calendar)
+    : await getNextWorkingDay(date, calendar);
+}
+
+// Turn one reading of a request into a due date and describe each step
+async function toDueDate(
+  date: Date,
+  interpretation: string,
+  parsed: ParsedDateRequest,
+  calendar: CalendarOptions,
+  options: AsanaDueOptions
+): Promise<{ dueDate: Date; interpretation: string }> {
+  const workingDay = await rollToWorkingDay(date, parsed.roll, calendar);
+  const steps = [interpretation];
+
+  if (workingDay.getTime() !== date.getTime()) {
+    steps.push(`then rolled to ${parsed.roll === 'backward' ? 'previous' : 'next'} working day (${format(workingDay, 'yyyy-MM-dd')})`);
+  }
+
+  // The policy's disallowed weekdays and due hours still apply to a date the
+  // request names, unless it pins the exact day ("first Monday of ...")
+  const due = await constrainDueDay(workingDay, calendar, {
+    ...options,
+    roll: parsed.roll === 'backward' ? 'preceding' : parsed.roll === 'none' ? 'none' : undefined,
+  });
+  steps.push(...due.steps.map(step => `then ${step}`));
+  const dueDay = due.day;
+
+  const hours = parsed.time ? parsed.time.hours : due.hour;
+  const minutes = parsed.time ? parsed.time.minutes : 0;
+
+  return {
+    dueDate: atTimeInZone(dueDay, hours, minutes, resolveTimezone(calendar)),
+    interpretation: `${steps.join(', ')} at ${formatTime(hours, minutes)}`,
+  };
 }
 
 /**
  * Parse natural language date requests for Asana
- * Examples: "tomorrow", "next monday", "in 3 days", "in 2 weeks"
+ * Examples: "tomorrow", "next monday", "in 3 working days", "end of month", "by 2pm Friday"
+ * Dates that fall on a non-working day (or a weekday the due-date policy
+ * disallows) move to a working day; the due time is the policy's due hour
+ * unless the request names one. Throws if the request is not understood.
  */
-export async function parseAsanaDateRequest(request: string): Promise<Date> {
-  const today = getTodayUK();
-  const lowerRequest = request.toLowerCase().trim();
-  
-  // Tomorrow
-  if (lowerRequest === 'tomorrow') {
-    return await getAsanaDueDate(today);
-  }
-  
-  // Next working day (default)
-  if (lowerRequest === 'next working day' || lowerRequest === 'default') {
-    return await getAsanaDueDate(today);
-  }
-  
-  // "in X days" pattern
-  const daysMatch = lowerRequest.match(/in (\d+) days?/);
-  if (daysMatch) {
-    const days = parseInt(daysMatch[1]);
-    const targetDate = new Date(today);
-    targetDate.setDate(targetDate.getDate() + days);
-    return await getAsanaDueDate(targetDate);
-  }
-  
-  // "in X weeks" pattern
-  const weeksMatch = lowerRequest.match(/in (\d+) weeks?/);
-  if (weeksMatch) {
-    const weeks = parseInt(weeksMatch[1]);
-    const targetDate = new Date(today);
-    targetDate.setDate(targetDate.getDate() + (weeks * 7));
-    return await getAsanaDueDate(targetDate);
-  }
-  
-  // Default to next working day
-  return await getAsanaDueDate(today);
-}
\ No newline at end of file
+export async function parseAsanaDateRequest(
+  request: string,
+  calendar: CalendarOptions = {},
+  options: AsanaDateOptions = {}
+): Promise<AsanaDateRequestResult> {
+  const dueOptions = { policy: options.policy, dueHour: options.dueHour };
+  const today = getToday(resolveTimezone(calendar));
+  const parsed = await parseDateRequest(request, { today, calendar, sprint: options.sprint });
+
+  // "next working day" and "default" mean whatever the due-date policy says
+  if (parsed.pattern === 'next-working-day') {
+    const { dueDate, policy, interpretation } = await getAsanaDueDate(today, calendar, dueOptions);
+    return { dueDate, policy, parsed, interpretation, candidates: [{ dueDate, interpretation }] };
+  }
+
+  const candidates = [];
+  for (const reading of [{ date: parsed.date, interpretation: parsed.interpretation }, ...parsed.alternatives]) {
+    candidates.push(await toDueDate(reading.date, reading.interpretation, parsed, calendar, dueOptions));
+  }
+
+  return {
+    dueDate: candidates[0].dueDate,
+    policy: resolveDuePolicy(options.policy).name,
+    parsed,
+    interpretation: candidates[0].interpretation,
+    candidates,
+  };
+}
+
+/** Date fields of an Asana task, as the API names them */
+export interface AsanaDateFields {
+  start_on?: string;
+  start_at?: string;
+  due_on?: string;
+  due_at?: string;
+}
+
+export type AsanaTiming = 'all-day' | 'timed';
+
+export interface AsanaDateFieldsRequest {
+  /** e.g. "next Monday", "2pm tomorrow" */
+  start?: string;
+  /** e.g. "end of next week", "by 2pm Friday". Default: the due-date policy */
+  due?: string;
+  /** Working days from start to due, both counted */
+  durationWorkingDays?: number;
+  /** Default: timed if either phrase names a time, otherwise all-day */
+  timing?: AsanaTiming;
+}
+
+export interface AsanaDateFieldsResult {
+  fields: AsanaDateFields;
+  timing: AsanaTiming;
+  policy: string;
+  /** Calendar dates (local midnight) */
+  startDay: Date | null;
+  dueDay: Date;
+  /** Working days from start to due, both counted */
+  workingDays: number | null;
+  interpretation: { start: string | null; due: string };
+  warnings: string[];
+}
+
+const ASANA_DAY = /^\d{4}-\d{2}-\d{2}$/;
+const ASANA_INSTANT = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * Throw if Asana would refuse these date fields: both due_on and due_at,
+ * a start without a due date, start_at without due_at, or a start after the due date
+ */
+export function validateAsanaDateFields(fields: AsanaDateFields, timezone: string = config.timezone): void {
+  for (const key of ['start_on', 'due_on'] as const) {
+    if (fields[key] !== undefined && !ASANA_DAY.test(fields[key]!)) {
+      throw new Error(`Invalid ${key}: ${fields[key]}. Expected YYYY-MM-DD`);
+    }
+  }
+  for (const key of ['start_at', 'due_at'] as const) {
+    if (fields[key] !== undefined && !ASANA_INSTANT.test(fields[key]!)) {
+      throw new Error(`Invalid ${key}: ${fields[key]}. Expected an ISO 8601 date and time with an offset, e.g. 2026-10-19T15:00:00Z`);
+    }
+  }
+
+  if (fields.due_on && fields.due_at) {
+    throw new Error('Send only one of due_on (all-day) and due_at (timed)');
+  }
+  if (fields.start_on && fields.start_at) {
+    throw new Error('Send only one of start_on (all-day) and start_at (timed)');
+  }
+  if ((fields.start_on || fields.start_at) && !fields.due_on && !fields.due_at) {
+    throw new Error('A start date needs a due date (due_on or due_at)');
+  }
+  if (fields.start_at && !fields.due_at) {
+    throw new Error('start_at needs due_at: a timed start needs a timed due date');
+  }
+
+  // Timed starts compare instants; all-day starts compare days in the user's timezone
+  const startValue = fields.start_at ? new Date(fields.start_at).getTime() : fields.start_on;
+  const dueValue = fields.start_at
+    ? new Date(fields.due_at!).getTime()
+    : fields.due_at ? formatInTimeZone(new Date(fields.due_at), timezone, 'yyyy-MM-dd') : fields.due_on;
+  if (startValue !== undefined && dueValue !== undefined && startValue > dueValue) {
+    throw new Error(`The start (${fields.start_at || fields.start_on}) is after the due date (${fields.due_at || fields.due_on})`);
+  }
+}
+
+/**
+ * Build Asana start and due fields from natural-language phrases or a
+ * duration in working days, choosing all-day (start_on/due_on) or timed
+ * (start_at/due_at) explicitly, and validate them as Asana would
+ */
+export async function buildAsanaDateFields(
+  request: AsanaDateFieldsRequest,
+  calendar: CalendarOptions = {},
+  options: AsanaDateOptions = {}
+): Promise<AsanaDateFieldsResult> {
+  const { start, due, durationWorkingDays: duration } = request;
+  const timezone = resolveTimezone(calendar);
+  const today = getToday(timezone);
+  const dueOptions = { policy: options.policy, dueHour: options.dueHour };
+  const warnings: string[] = [];
+
+  if (duration !== undefined && (!Number.isInteger(duration) || duration < 1)) {
+    throw new Error(`Invalid duration: ${duration}. Expected a whole number of working days (1 or more)`);
+  }
+  if (start && due && duration !== undefined) {
+    throw new Error('Give at most two of start, due and duration: the third follows from the other two');
+  }
+
+  // Start phrase: a working day, with its time if it names one
+  let startDay: Date | null = null;
+  let startTime: ParsedDateRequest['time'] = null;
+  let startInterpretation: string | null = null;
+  if (start) {
+    const parsed = await parseDateRequest(start, { today, calendar, sprint: options.sprint });
+    const roll = parsed.roll === 'none' ? 'forward' : parsed.roll;
+    startDay = await rollToWorkingDay(parsed.date, roll, calendar);
+    startTime = parsed.time;
+    startInterpretation = startDay.getTime() === parsed.date.getTime()
+      ? parsed.interpretation
+      : `${parsed.interpretation}, then rolled to ${roll === 'backward' ? 'previous' : 'next'} working day (${format(startDay, 'yyyy-MM-dd')})`;
+    if (parsed.alternatives.length > 0) {
+      warnings.push(`"${start}" is ambiguous: using ${format(parsed.date, 'yyyy-MM-dd')}, but it could mean ${parsed.alternatives.map(alternative => format(alternative.date, 'yyyy-MM-dd')).join(' or ')}`);
+    }
+  }
+
+  // Due: the phrase, the duration from the start, or the policy's default
+  let dueDate: Date;
+  let dueTimeNamed = false;
+  let policy: string;
+  let dueInterpretation: string;
+  if (due) {
+    const result = await parseAsanaDateRequest(due, calendar, options);
+    ({ dueDate, policy } = result);
+    dueTimeNamed = result.parsed.time !== null;
+    dueInterpretation = result.interpretation;
+    if (result.candidates.length > 1) {
+      warnings.push(`"${due}" is ambiguous: using ${formatAsanaDay(dueDate, timezone)}, but it could mean ${result.candidates.slice(1).map(candidate => formatAsanaDay(candidate.dueDate, timezone)).join(' or ')}`);
+    }
+  } else if (startDay && duration !== undefined) {
+    const day = await calculateWorkingDays(startDay, duration, 'forward', calendar, { includeStart: true });
+    const constrained = await constrainDueDay(day, calendar, dueOptions);
+    policy = constrained.policy;
+    dueDate = atTimeInZone(constrained.day, constrained.hour, 0, timezone);
+    dueInterpretation = [`${duration} working day${duration === 1 ? '' : 's'} starting ${format(startDay, 'yyyy-MM-dd')} (${format(day, 'yyyy-MM-dd')})`, ...constrained.steps]
+      .join(', then ') + ` at ${formatTime(constrained.hour, 0)}`;
+  } else {
+    ({ dueDate, policy, interpretation: dueInterpretation } = await getAsanaDueDate(startDay || undefined, calendar, dueOptions));
+  }
+  const dueDay = parseISO(formatAsanaDay(dueDate, timezone));
+
+  // Start from the due date and duration
+  if (!start && duration !== undefined) {
+    startDay = await calculateWorkingDays(dueDay, duration, 'backward', calendar, { includeStart: true });
+    startInterpretation = `${duration} working day${duration === 1 ? '' : 's'} ending ${format(dueDay, 'yyyy-MM-dd')}`;
+  }
+
+  const timing: AsanaTiming = request.timing || (dueTimeNamed || startTime ? 'timed' : 'all-day');
+  if (timing === 'all-day' && (dueTimeNamed || startTime)) {
+    throw new Error(`${dueTimeNamed ? `"${due}"` : `"${start}"`} names a time, but timing is all-day: Asana needs due_at (timed) for a time. Use timing "timed" or leave the time out`);
+  }
+
+  const fields: AsanaDateFields = {};
+  if (startDay) {
+    if (startTime) {
+      const startAt = atTimeInZone(startDay, startTime.hours, startTime.minutes, timezone);
+      fields.start_at = formatAsanaTimestamp(startAt);
+    } else {
+      fields.start_on = format(startDay, 'yyyy-MM-dd');
+    }
+  }
+  if (timing === 'timed') {
+    fields.due_at = formatAsanaTimestamp(dueDate);
+  } else {
+    fields.due_on = format(dueDay, 'yyyy-MM-dd');
+  }
+
+  validateAsanaDateFields(fields, timezone);
+
+  return {
+    fields,
+    timing,
+    policy,
+    startDay,
+    dueDay,
+    workingDays: startDay ? await getWorkingDaysBetween(startDay, dueDay, calendar) : null,
+    interpretation: { start: startInterpretation, due: dueInterpretation },
+    warnings,
+  };
+}
@@ -1,172 +1,495 @@
 import fetch from 'node-fetch';
-import { format, parseISO } from 'date-fns';
+import { addMonths, format, parseISO, startOfDay } from 'date-fns';
 import { config } from './config.js';
+import { generateHolidays, missingHolidayData, GeneratedHoliday, HolidayType, MissingHolidayData } from './holidayRules.js';
+import { HOLIDAY_DEFINITIONS } from './holidayDefinitions.js';
+import { listCachedYears, readCachedHolidays, writeCachedHolidays, RemoteHolidaySource } from './holidayCache.js';
 
 interface BankHoliday {
   date: string;
   localName: string;
   name: string;
+  global: boolean;
+  counties: string[] | null;
 }
 
-interface UKBankHolidayResponse {
-  'england-and-wales': {
-    division: string;
-    events: Array<{
-      title: string;
-      date: string;
-      notes: string;
-      bunting: boolean;
-    }>;
-  };
+type UKDivision = 'england-and-wales' | 'scotland' | 'northern-ireland';
+
+type UKBankHolidayResponse = Record<UKDivision, {
+  division: string;
+  events: Array<{
+    title: string;
+    date: string;
+    notes: string;
+    bunting: boolean;
+  }>;
+}>;
+
+const UK_DIVISIONS: Record<string, UKDivision> = {
+  ENG: 'england-and-wales',
+  WLS: 'england-and-wales',
+  SCT: 'scotland',
+  NIR: 'northern-ireland',
+};
+
+/**
+ * Which holiday calendar (and timezone) a call should use. Anything left
+ * unset falls back to the server configuration.
+ */
+export interface CalendarOptions {
+  country?: string;
+  region?: string;
+  timezone?: string;
+  /** e.g. "mon-fri", "sun-thu", "mon,tue,wed,thu" */
+  workWeek?: string;
+}
+
+export interface ResolvedCalendar {
+  country: string;
+  region: string | null;
+}
+
+export interface Holiday {
+  /** yyyy-MM-dd */
+  date: string;
+  name: string;
+  localName: string;
+  type: HolidayType;
+  /** A weekday off in place of a holiday that fell on a weekend */
+  substitute: boolean;
+  substituteFor: string | null;
+  /** National holidays apply everywhere except excludedRegions; regional ones only in regions */
+  scope: 'national' | 'regional';
+  /** Regions observing a regional holiday, e.g. ["GB-SCT"] */
+  regions: string[];
+  /** Regions that do not observe a national holiday */
+  excludedRegions: string[];
+}
+
+export interface HolidayCrossCheck {
+  country: string;
+  region: string | null;
+  year: number;
+  source: RemoteHolidaySource;
+  /** When the remote data was fetched (ISO timestamp) */
+  fetchedAt: string;
+  /** True when the remote source was unreachable and an expired cache entry was used */
+  stale: boolean;
+  /** Dates the remote source lists but the generator does not */
+  missing: string[];
+  /** Dates the generator produces but the remote source does not list */
+  unexpected: string[];
+}
+
+export interface HolidayCacheStatus {
+  country: string;
+  region: string | null;
+  /** Years generated from the built-in rules since the server started */
+  generated: Array<{ year: number; generatedAt: string }>;
+  /** Years fetched from GOV.UK / Nager.Date and cached on disk */
+  remote: Array<{ year: number; source: RemoteHolidaySource; fetchedAt: string; stale: boolean; holidayCount: number }>;
+}
+
+export interface HolidayCoverage {
+  country: string;
+  region: string | null;
+  year: number;
+  /** False when some holidays have no data for the year (treated as working days) or only estimated dates */
+  complete: boolean;
+  /** Holidays without data for the year, or estimated (Poya days without published dates) */
+  missing: MissingHolidayData[];
+}
+
+interface RemoteHolidays {
+  dates: Set<string>;
+  source: RemoteHolidaySource;
+  fetchedAt: string;
+  stale: boolean;
 }
 
-let cachedHolidays: Set<string> | null = null;
-let cacheExpiry: number = 0;
-let cachedCountry: string | null = null;
+// Generated holidays never expire. Entries are keyed by country, region and
+// year, e.g. "GB:SCT:2026" or "LK::2026" for national holidays.
+const cachedHolidays: Map<string, { holidays: GeneratedHoliday[]; generatedAt: Date }> = new Map();
+const verifiedCalendars = new Set<string>();
+
+// GOV.UK download in progress, shared by checks of several years at once
+let pendingUKFeed: Promise<UKBankHolidayResponse> | null = null;
+
+/**
+ * Resolve the country and region for a call. Regions accept either the
+ * ISO 3166-2 suffix ("SCT") or the full code ("GB-SCT"). BANK_HOLIDAY_REGION
+ * only applies when the configured country is used.
+ */
+export function resolveCalendar(calendar: CalendarOptions = {}): ResolvedCalendar {
+  const country = (calendar.country || config.bankHolidayCountry).toUpperCase();
+
+  if (country !== 'NONE' && !HOLIDAY_DEFINITIONS[country]) {
+    const supported = Object.keys(HOLIDAY_DEFINITIONS).join(', ');
+    throw new Error(`Unknown country "${country}". Supported countries: NONE, ${supported}`);
+  }
+
+  const requested = calendar.region ??
+    (country === config.bankHolidayCountry ? config.bankHolidayRegion : null);
 
-async function fetchUKBankHolidays(): Promise<Set<string>> {
+  if (!requested) {
+    return { country, region: null };
+  }
+
+  const code = requested.toUpperCase().replace(`${country}-`, '');
+  const regions = HOLIDAY_DEFINITIONS[country]?.regions || {};
+
+  if (!regions[code]) {
+    const supported = Object.keys(regions).map(key => `${country}-${key}`);
+    throw new Error(
+      `Unknown region "${requested}" for country ${country}. ` +
+      `Supported regions: ${supported.length > 0 ? supported.join(', ') : 'none'}`
+    );
+  }
+
+  return { country, region: code };
+}
+
+// Every year GOV.UK publishes for a division: the feed covers them all in one download
+async function fetchUKBankHolidays(region: string | null): Promise<Map<number, Set<string>> | null> {
   try {
-    const response = await fetch('https://www.gov.uk/bank-holidays.json');
-    const data = await response.json() as UKBankHolidayResponse;
-    
-    const holidays = new Set<string>();
-    data['england-and-wales'].events.forEach(event => {
-      holidays.add(event.date);
+    if (!pendingUKFeed) {
+      pendingUKFeed = fetch('https://www.gov.uk/bank-holidays.json')
+        .then(response => response.json() as Promise<UKBankHolidayResponse>)
+        .finally(() => { pendingUKFeed = null; });
+    }
+    const data = await pendingUKFeed;
+    const division = UK_DIVISIONS[region || 'ENG'];
+
+    const years = new Map<number, Set<string>>();
+    data[division].events.forEach(event => {
+      const year = Number(event.date.slice(0, 4));
+      years.set(year, (years.get(year) || new Set<string>()).add(event.date));
     });
-    
-    return holidays;
+
+    return years;
   } catch (error) {
     console.error('Failed to fetch UK bank holidays:', error);
-    return new Set<string>();
+    return null;
   }
 }
 
-async function fetchNagerDateHolidays(countryCode: string): Promise<Set<string>> {
+async function fetchNagerDateHolidays(
+  countryCode: string,
+  year: number,
+  region: string | null
+): Promise<Set<string> | null> {
   try {
-    const currentYear = new Date().getFullYear();
-    const nextYear = currentYear + 1;
-    
+    const response = await fetch(`https://date.nager.at/api/v3/PublicHolidays/${year}/${countryCode}`);
+
+    if (!response.ok) {
+      console.error(`Failed to fetch holidays for ${countryCode} ${year}: ${response.status}`);
+      return null;
+    }
+
     const holidays = new Set<string>();
-    
-    // Fetch current year and next year holidays
-    for (const year of [currentYear, nextYear]) {
-      const response = await fetch(`https://date.nager.at/api/v3/PublicHolidays/${year}/${countryCode}`);
-      
-      if (!response.ok) {
-        console.error(`Failed to fetch holidays for ${countryCode} ${year}: ${response.status}`);
-        continue;
-      }
-      
-      const data = await response.json() as BankHoliday[];
-      data.forEach(holiday => {
+    const data = await response.json() as BankHoliday[];
+    const county = region ? `${countryCode}-${region}` : null;
+    data.forEach(holiday => {
+      if (holiday.global || (county && holiday.counties?.includes(county))) {
         holidays.add(holiday.date);
-      });
-    }
-    
+      }
+    });
+
     return holidays;
   } catch (error) {
     console.error(`Failed to fetch ${countryCode} bank holidays:`, error);
-    return new Set<string>();
+    return null;
   }
 }
 
-export async function fetchBankHolidays(): Promise<Set<string>> {
-  const now = Date.now();
-  const country = config.bankHolidayCountry;
-  
-  // Return empty set if bank holidays are disabled
-  if (!config.enableBankHolidays) {
-    return new Set<string>();
+// Remote holidays through the disk cache, for cross-checking the generated
+// ones: fresh entries (fetched since refetchBefore, when given) are used as
+// they are, others are refetched and still compared if the fetch fails
+async function fetchRemoteHolidays(
+  country: string,
+  region: string | null,
+  year: number,
+  refetchBefore?: Date
+): Promise<RemoteHolidays | null> {
+  const cached = readCachedHolidays(country, region, year);
+  if (cached && !cached.stale && !(refetchBefore && new Date(cached.entry.fetchedAt) < refetchBefore)) {
+    return { dates: new Set(cached.entry.dates), source: cached.entry.source, fetchedAt: cached.entry.fetchedAt, stale: false };
   }
-  
-  // Cache for 24 hours if same country
-  if (cachedHolidays && now < cacheExpiry && cachedCountry === country) {
-    return cachedHolidays;
-  }
-  
-  let holidays: Set<string>;
-  
-  // UK uses GOV.UK API for more detailed data
-  if (country === 'GB') {
-    holidays = await fetchUKBankHolidays();
+
+  const source: RemoteHolidaySource = country === 'GB' ? 'gov.uk' : 'nager.date';
+  const fetchedAt = new Date().toISOString();
+  let dates: Set<string> | null;
+  if (source === 'gov.uk') {
+    const years = await fetchUKBankHolidays(region);
+    // Cache every published year, so other years need no download of their own
+    years?.forEach((yearDates, feedYear) =>
+      writeCachedHolidays({ country, region, year: feedYear, source, fetchedAt, dates: [...yearDates].sort() }));
+    // GOV.UK only publishes a limited window of years
+    dates = years?.get(year) ?? null;
   } else {
-    holidays = await fetchNagerDateHolidays(country);
+    dates = await fetchNagerDateHolidays(country, year, region);
+    if (dates) {
+      writeCachedHolidays({ country, region, year, source, fetchedAt, dates: [...dates].sort() });
+    }
+  }
+
+  if (dates) {
+    return { dates, source, fetchedAt, stale: false };
   }
-  
-  cachedHolidays = holidays;
-  cachedCountry = country;
-  cacheExpiry = now + (24 * 60 * 60 * 1000); // 24 hours
-  
-  return holidays;
+
+  if (cached) {
+    console.error(`Using cached ${cached.entry.source} holidays for ${country}${region ? `-${region}` : ''} ${year} from ${cached.entry.fetchedAt}`);
+    return { dates: new Set(cached.entry.dates), source: cached.entry.source, fetchedAt: cached.entry.fetchedAt, stale: true };
+  }
+
+  return null;
 }
 
-export async function isUKBankHoliday(date: Date): Promise<boolean> {
-  if (!config.enableBankHolidays) {
-    return false;
+/**
+ * Compare generated holidays for a year with the remote source
+ * (GOV.UK for GB, Nager.Date otherwise), through the disk cache. Data
+ * fetched before refetchBefore is fetched again regardless of the TTL.
+ * Returns null if the remote source could not be reached and nothing is
+ * cached.
+ */
+export async function crossCheckHolidays(
+  year: number,
+  calendar: CalendarOptions = {},
+  refetchBefore?: Date
+): Promise<HolidayCrossCheck | null> {
+  const { country, region } = resolveCalendar(calendar);
+
+  if (country === 'NONE') {
+    return null;
   }
-  
-  const holidays = await fetchBankHolidays();
+
+  const remote = await fetchRemoteHolidays(country, region, year, refetchBefore);
+
+  if (!remote) {
+    return null;
+  }
+
+  const generated = new Set(getHolidaysForYear(country, region, year).filter(isDayOff).map(holiday => holiday.date));
+
+  return {
+    country,
+    region,
+    year,
+    source: remote.source,
+    fetchedAt: remote.fetchedAt,
+    stale: remote.stale,
+    missing: [...remote.dates].filter(date => !generated.has(date)).sort(),
+    unexpected: [...generated].filter(date => !remote.dates.has(date)).sort(),
+  };
+}
+
+function verifyInBackground(country: string, region: string | null, year: number): void {
+  const key = `${country}:${region || ''}:${year}`;
+  if (verifiedCalendars.has(key)) {
+    return;
+  }
+  verifiedCalendars.add(key);
+
+  crossCheckHolidays(year, { country, region: region || undefined })
+    .then(result => {
+      if (result && (result.missing.length > 0 || result.unexpected.length > 0)) {
+        const label = result.region ? `${result.country}-${result.region}` : result.country;
+        console.error(`Holiday cross-check for ${label} ${year} differs from remote source:`);
+        console.error(`  Missing: ${result.missing.join(', ') || 'none'}`);
+        console.error(`  Unexpected: ${result.unexpected.join(', ') || 'none'}`);
+      }
+    })
+    .catch(error => console.error(`Holiday cross-check for ${key} failed:`, error));
+}
+
+function getHolidaysForYear(
+  country: string,
+  region: string | null,
+  year: number,
+  verify: boolean = config.verifyHolidaysOnline
+): GeneratedHoliday[] {
+  const definition = HOLIDAY_DEFINITIONS[country];
+
+  if (!definition) {
+    return [];
+  }
+
+  const key = `${country}:${region || ''}:${year}`;
+  let cached = cachedHolidays.get(key);
+  if (!cached) {
+    cached = { holidays: generateHolidays(definition, year, region || undefined), generatedAt: new Date() };
+    cachedHolidays.set(key, cached);
+
+    if (verify) {
+      verifyInBackground(country, region, year);
+    }
+  }
+
+  return cached.holidays;
+}
+
+// Observances are listed in the calendar but are not days off
+function isDayOff(holiday: GeneratedHoliday): boolean {
+  return holiday.type !== 'observance';
+}
+
+// Where in the country a generated holiday applies, comparing it with the
+// holidays of every modelled region in the same year (without verifying
+// regions nobody asked for online)
+function toHoliday(country: string, holiday: GeneratedHoliday): Holiday {
+  const regions = HOLIDAY_DEFINITIONS[country].regions || {};
+  const baseName = holiday.substituteFor || holiday.name;
+  const year = Number(holiday.date.slice(0, 4));
+
+  const observing = Object.keys(regions).filter(code =>
+    getHolidaysForYear(country, code, year, false)
+      .some(candidate => candidate.date === holiday.date && candidate.name === holiday.name)
+  );
+
+  return {
+    date: holiday.date,
+    name: holiday.name,
+    localName: holiday.localName,
+    type: holiday.type,
+    substitute: holiday.substitute,
+    substituteFor: holiday.substituteFor,
+    scope: holiday.regional ? 'regional' : 'national',
+    regions: holiday.regional ? observing.map(code => `${country}-${code}`) : [],
+    excludedRegions: holiday.regional ? [] : Object.keys(regions)
+      .filter(code => regions[code].exclude?.includes(baseName))
+      .map(code => `${country}-${code}`),
+  };
+}
+
+/**
+ * Generate (and, with VERIFY_HOLIDAYS_ONLINE, start verifying) holidays for
+ * years a calculation is about to need
+ */
+export function warmHolidayCache(years: number[], calendar: CalendarOptions = {}): void {
+  const { country, region } = resolveCalendar(calendar);
+  years.forEach(year => getHolidaysForYear(country, region, year));
+}
+
+/**
+ * Whether the built-in data has every holiday of a year. Rule-based holidays
+ * exist for any year; bundled lunar and announced dates only for some.
+ */
+export function getHolidayCoverage(year: number, calendar: CalendarOptions = {}): HolidayCoverage {
+  const { country, region } = resolveCalendar(calendar);
+  const definition = HOLIDAY_DEFINITIONS[country];
+  const missing = definition ? missingHolidayData(definition, year, region || undefined) : [];
+
+  return { country, region, year, complete: missing.length === 0, missing };
+}
+
+export function getHolidayCacheStatus(calendar: CalendarOptions = {}): HolidayCacheStatus {
+  const { country, region } = resolveCalendar(calendar);
+  const prefix = `${country}:${region || ''}:`;
+
+  const generated = [...cachedHolidays.entries()]
+    .filter(([key]) => key.startsWith(prefix))
+    .map(([key, cached]) => ({ year: Number(key.slice(prefix.length)), generatedAt: cached.generatedAt.toISOString() }))
+    .sort((a, b) => a.year - b.year);
+
+  const remote = country === 'NONE' ? [] : listCachedYears(country, region)
+    .map(year => readCachedHolidays(country, region, year))
+    .filter((cached): cached is NonNullable<typeof cached> => cached !== null)
+    .map(({ entry, stale }) => ({
+      year: entry.year,
+      source: entry.source,
+      fetchedAt: entry.fetchedAt,
+      stale,
+      holidayCount: entry.dates.length,
+    }));
+
+  return { country, region, generated, remote };
+}
+
+/**
+ * Regenerate holidays for some years and refetch them from the remote source,
+ * ignoring the TTL; a GOV.UK download covers every year of the refresh.
+ * Years the remote source cannot provide come back null.
+ */
+export async function refreshHolidayCache(
+  years: number[],
+  calendar: CalendarOptions = {}
+): Promise<Array<{ year: number; crossCheck: HolidayCrossCheck | null }>> {
+  const { country, region } = resolveCalendar(calendar);
+  const refreshedAt = new Date();
+  const results = [];
+
+  for (const year of years) {
+    cachedHolidays.delete(`${country}:${region || ''}:${year}`);
+    getHolidaysForYear(country, region, year);
+    results.push({ year, crossCheck: await crossCheckHolidays(year, { country, region: region || undefined }, refreshedAt) });
+  }
+
+  return results;
+}
+
+export async function fetchBankHolidays(
+  year: number = new Date().getFullYear(),
+  calendar: CalendarOptions = {}
+): Promise<Set<string>> {
+  const { country, region } = resolveCalendar(calendar);
+
+  // Return empty set if bank holidays are disabled
+  if (country === 'NONE') {
+    return new Set<string>();
+  }
+
+  return new Set(getHolidaysForYear(country, region, year).filter(isDayOff).map(holiday => holiday.date));
+}
+
+export async function isBankHoliday(date: Date, calendar: CalendarOptions = {}): Promise<boolean> {
+  const holidays = await fetchBankHolidays(date.getFullYear(), calendar);
   const dateString = format(date, 'yyyy-MM-dd');
   return holidays.has(dateString);
 }
 
-export async function getUpcomingBankHolidays(monthsAhead: number = 6): Promise<Array<{date: string, title: string}>> {
-  if (!config.enableBankHolidays) {
+/**
+ * The holiday on a date, if any. Days off take precedence over observances
+ * on the same date.
+ */
+export async function getHoliday(date: Date, calendar: CalendarOptions = {}): Promise<Holiday | null> {
+  const { country, region } = resolveCalendar(calendar);
+
+  if (country === 'NONE') {
+    return null;
+  }
+
+  const dateString = format(date, 'yyyy-MM-dd');
+  const matches = getHolidaysForYear(country, region, date.getFullYear())
+    .filter(candidate => candidate.date === dateString);
+  const holiday = matches.find(isDayOff) || matches[0];
+
+  return holiday ? toHoliday(country, holiday) : null;
+}
+
+export async function getUpcomingBankHolidays(
+  monthsAhead: number = 6,
+  calendar: CalendarOptions = {},
+  today: Date = startOfDay(new Date())
+): Promise<Holiday[]> {
+  const { country, region } = resolveCalendar(calendar);
+
+  if (country === 'NONE') {
     return [];
   }
-  
-  const country = config.bankHolidayCountry;
-  
-  try {
-    // UK uses GOV.UK API
-    if (country === 'GB') {
-      const response = await fetch('https://www.gov.uk/bank-holidays.json');
-      const data = await response.json() as UKBankHolidayResponse;
-      
-      const now = new Date();
-      const futureDate = new Date();
-      futureDate.setMonth(futureDate.getMonth() + monthsAhead);
-      
-      return data['england-and-wales'].events
-        .filter(event => {
-          const eventDate = parseISO(event.date);
-          return eventDate >= now && eventDate <= futureDate;
-        })
-        .map(event => ({
-          date: event.date,
-          title: event.title
-        }));
-    }
-    
-    // Other countries use Nager.Date API
-    const currentYear = new Date().getFullYear();
-    const nextYear = currentYear + 1;
-    const allHolidays: Array<{date: string, title: string}> = [];
-    
-    for (const year of [currentYear, nextYear]) {
-      const response = await fetch(`https://date.nager.at/api/v3/PublicHolidays/${year}/${country}`);
-      if (!response.ok) continue;
-      
-      const data = await response.json() as BankHoliday[];
-      data.forEach(holiday => {
-        allHolidays.push({
-          date: holiday.date,
-          title: holiday.localName || holiday.name
-        });
-      });
-    }
-    
-    const now = new Date();
-    const futureDate = new Date();
-    futureDate.setMonth(futureDate.getMonth() + monthsAhead);
-    
-    return allHolidays.filter(holiday => {
+
+  const now = today;
+  const futureDate = addMonths(today, monthsAhead);
+
+  const upcoming: Holiday[] = [];
+
+  for (let year = now.getFullYear(); year <= futureDate.getFullYear(); year++) {
+    getHolidaysForYear(country, region, year).filter(isDayOff).forEach(holiday => {
       const holidayDate = parseISO(holiday.date);
-      return holidayDate >= now && holidayDate <= futureDate;
+      if (holidayDate >= now && holidayDate <= futureDate) {
+        upcoming.push(toHoliday(country, holiday));
+      }
     });
-    
-  } catch (error) {
-    console.error(`Failed to fetch upcoming bank holidays for ${country}:`, error);
-    return [];
   }
-}
\ No newline at end of file
+
+  return upcoming;
+}
@@ -0,0 +1,364 @@
+import { readFileSync, statSync } from 'fs';
+import { extname } from 'path';
+import { addDays, format, parseISO } from 'date-fns';
+import { parse as parseYaml } from 'yaml';
+import { config } from './config.js';
+import { HolidayRule, ruleDates } from './holidayRules.js';
+
+// Company calendar: office closures, shutdown weeks, extra days off and
+// weekend dates that are worked. Loaded from COMPANY_CALENDAR_FILE (JSON or
+// YAML) and re-read whenever the file changes.
+//
+// Example (YAML):
+//   name: Acme Ltd
+//   non_working:
+//     - { name: Wellbeing day, date: 2026-08-14 }
+//     - { name: Christmas shutdown, from: 12-27, to: 12-31 }      # every year
+//     - { name: Summer party, rule: { type: nth-weekday, month: 7, weekday: 5, n: -1 } }
+//     - { name: Office move, from: 2026-03-02, to: 2026-03-04, countries: [GB] }
+//   working:
+//     - { name: Release weekend, date: 2026-11-07 }
+
+export interface CompanyCalendarEntry {
+  name: string;
+  /** One date: yyyy-MM-dd, or MM-dd to repeat every year (02-29 only in leap years) */
+  date?: string;
+  /** Inclusive range: yyyy-MM-dd, or MM-dd to repeat every year (may wrap past 31 December) */
+  from?: string;
+  to?: string;
+  /** Recurring rule, same shape as the built-in holiday rules (without name) */
+  rule?: Omit<HolidayRule, 'name'>;
+  /** Only apply to these countries; all countries when omitted */
+  countries?: string[];
+}
+
+export interface CompanyCalendarFile {
+  name?: string;
+  non_working?: CompanyCalendarEntry[];
+  working?: CompanyCalendarEntry[];
+}
+
+export interface CompanyDay {
+  calendar: string;
+  name: string;
+}
+
+interface CompanyYear {
+  nonWorking: Map<string, CompanyCalendarEntry[]>;
+  working: Map<string, CompanyCalendarEntry[]>;
+}
+
+interface LoadedCalendar {
+  path: string;
+  modified: number;
+  file: CompanyCalendarFile;
+  years: Map<number, CompanyYear>;
+}
+
+const FULL_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const ANNUAL_DATE = /^\d{2}-\d{2}$/;
+const RULE_TYPES = ['fixed', 'nth-weekday', 'weekday-on-or-after', 'easter'];
+
+let loaded: LoadedCalendar | null = null;
+// Configured file that could not be found, reported once
+let missingPath: string | null = null;
+// Last file that failed validation, so it is not re-read until it changes
+let failed: { path: string; modified: number; error: Error } | null = null;
+
+// A month (1-12) and day that exist in some year: 29 February counts
+function isMonthDay(month: unknown, day: unknown): boolean {
+  return Number.isInteger(month) && Number.isInteger(day) && isRealDate(2000, month as number, day as number);
+}
+
+function isRealDate(year: number, month: number, day: number): boolean {
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+}
+
+function isDateString(value: string): boolean {
+  const [year, month, day] = FULL_DATE.test(value)
+    ? value.split('-').map(Number)
+    : [2000, ...value.split('-').map(Number)];
+  return isRealDate(year, month, day);
+}
+
+function validateRule(rule: HolidayRule, fail: (message: string) => never): void {
+  if (!RULE_TYPES.includes(rule.type)) {
+    fail(`has an unsupported rule type: ${rule.type}. Expected one of: ${RULE_TYPES.join(', ')}`);
+  }
+  const isWeekday = (value: unknown) => Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 6;
+
+  switch (rule.type) {
+    case 'fixed':
+    case 'weekday-on-or-after':
+      if (!isMonthDay(rule.month, rule.day)) {
+        fail(`has an invalid rule month/day: ${rule.month}/${rule.day}`);
+      }
+      if (rule.type === 'weekday-on-or-after' && !isWeekday(rule.weekday)) {
+        fail(`has an invalid rule weekday: ${rule.weekday}. Expected 0 (Sunday) to 6 (Saturday)`);
+      }
+      break;
+    case 'nth-weekday':
+      if (!Number.isInteger(rule.month) || rule.month < 1 || rule.month > 12) {
+        fail(`has an invalid rule month: ${rule.month}. Expected 1 to 12`);
+      }
+      if (!isWeekday(rule.weekday)) {
+        fail(`has an invalid rule weekday: ${rule.weekday}. Expected 0 (Sunday) to 6 (Saturday)`);
+      }
+      if (!Number.isInteger(rule.n) || rule.n === 0 || rule.n < -1 || rule.n > 5) {
+        fail(`has an invalid rule n: ${rule.n}. Expected 1 to 5, or -1 for the last one`);
+      }
+      if (rule.offset !== undefined && !Number.isInteger(rule.offset)) {
+        fail(`has an invalid rule offset: ${rule.offset}. Expected a whole number of days`);
+      }
+      break;
+    case 'easter':
+      if (!Number.isInteger(rule.offset)) {
+        fail(`has an invalid rule offset: ${rule.offset}. Expected a whole number of days from Easter Sunday`);
+      }
+      if (rule.calendar !== undefined && !['western', 'orthodox'].includes(rule.calendar)) {
+        fail(`has an invalid rule calendar: ${rule.calendar}. Expected "western" or "orthodox"`);
+      }
+      break;
+  }
+
+  for (const field of ['fromYear', 'toYear'] as const) {
+    if (rule[field] !== undefined && !Number.isInteger(rule[field])) {
+      fail(`has an invalid rule ${field}: ${rule[field]}. Expected a year`);
+    }
+  }
+  if (rule.skipYears !== undefined && (!Array.isArray(rule.skipYears) || !rule.skipYears.every(year => Number.isInteger(year)))) {
+    fail('has an invalid rule skipYears: expected a list of years');
+  }
+}
+
+function validateEntry(entry: CompanyCalendarEntry, path: string, list: string, index: number): void {
+  const where = `${path}: ${list}[${index}]`;
+
+  if (!entry || typeof entry.name !== 'string' || entry.name.trim() === '') {
+    throw new Error(`${where} needs a "name"`);
+  }
+
+  const fail = (message: string): never => {
+    throw new Error(`${where} ("${entry.name}") ${message}`);
+  };
+
+  const kinds = [entry.date !== undefined, entry.from !== undefined || entry.to !== undefined, entry.rule !== undefined];
+  if (kinds.filter(Boolean).length !== 1) {
+    fail('needs exactly one of "date", "from"/"to" or "rule"');
+  }
+
+  const checkDate = (value: unknown, field: string) => {
+    if (typeof value !== 'string' || !(FULL_DATE.test(value) || ANNUAL_DATE.test(value)) || !isDateString(value)) {
+      fail(`has an invalid ${field}: ${value}. Expected a real date as YYYY-MM-DD or MM-DD`);
+    }
+  };
+
+  if (entry.date !== undefined) {
+    checkDate(entry.date, 'date');
+  }
+  if (entry.from !== undefined || entry.to !== undefined) {
+    checkDate(entry.from, 'from');
+    checkDate(entry.to, 'to');
+    if (FULL_DATE.test(entry.from!) !== FULL_DATE.test(entry.to!)) {
+      fail('must use the same format for "from" and "to"');
+    }
+    if (FULL_DATE.test(entry.from!) && entry.to! < entry.from!) {
+      fail(`ends (${entry.to}) before it starts (${entry.from})`);
+    }
+  }
+  if (entry.rule !== undefined) {
+    if (!entry.rule || typeof entry.rule !== 'object') {
+      fail('has an invalid rule: expected an object, e.g. { type: fixed, month: 8, day: 14 }');
+    }
+    validateRule({ ...entry.rule, name: entry.name } as HolidayRule, fail);
+  }
+  if (entry.countries !== undefined && (!Array.isArray(entry.countries) || !entry.countries.every(country => typeof country === 'string'))) {
+    fail('has an invalid countries: expected a list of country codes, e.g. [GB, RO]');
+  }
+}
+
+function readCalendarFile(path: string): CompanyCalendarFile {
+  let raw: string;
+  try {
+    raw = readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new Error(`Cannot read company calendar ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const extension = extname(path).toLowerCase();
+  let file: CompanyCalendarFile;
+  try {
+    // Core schema keeps dates as strings (YAML 1.1 would turn them into Date objects)
+    file = (extension === '.yaml' || extension === '.yml'
+      ? parseYaml(raw, { schema: 'core' })
+      : JSON.parse(raw)) as CompanyCalendarFile;
+  } catch (error) {
+    throw new Error(`Invalid company calendar ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  (file.non_working || []).forEach((entry, index) => validateEntry(entry, path, 'non_working', index));
+  (file.working || []).forEach((entry, index) => validateEntry(entry, path, 'working', index));
+
+  return file;
+}
+
+function loadCalendar(): LoadedCalendar | null {
+  const path = config.companyCalendarPath;
+  if (!path) {
+    return null;
+  }
+
+  let modified: number;
+  try {
+    modified = statSync(path).mtimeMs;
+  } catch (error) {
+    // Answers leave company days out until the file appears; getCompanyCalendarWarning says so
+    if (missingPath !== path) {
+      missingPath = path;
+      console.error(`Company calendar not found: ${path}. Continuing without it`);
+    }
+    return null;
+  }
+  missingPath = null;
+
+  if (failed && failed.path === path && failed.modified === modified) {
+    throw failed.error;
+  }
+  if (!loaded || loaded.path !== path || loaded.modified !== modified) {
+    try {
+      loaded = { path, modified, file: readCalendarFile(path), years: new Map() };
+    } catch (error) {
+      failed = { path, modified, error: error instanceof Error ? error : new Error(String(error)) };
+      throw failed.error;
+    }
+  }
+
+  return loaded;
+}
+
+// An MM-dd date in a year: 29 February only exists in leap years
+function annualKey(year: number, monthDay: string): string | null {
+  const [month, day] = monthDay.split('-').map(Number);
+  return isRealDate(year, month, day) ? `${year}-${monthDay}` : null;
+}
+
+function entryDates(entry: CompanyCalendarEntry, year: number): string[] {
+  if (entry.rule) {
+    const rule = { ...entry.rule, name: entry.name } as HolidayRule;
+    // A fixed 29 February rule is skipped in other years rather than moved to 1 March
+    if (rule.type === 'fixed' && !isRealDate(year, rule.month, rule.day)) {
+      return [];
+    }
+    return ruleDates(rule, year);
+  }
+
+  if (entry.date) {
+    const key = ANNUAL_DATE.test(entry.date) ? annualKey(year, entry.date) : entry.date;
+    return key ? [key] : [];
+  }
+
+  const annual = ANNUAL_DATE.test(entry.from!);
+  // A recurring range that wraps past New Year also covers the start of this year
+  const wraps = entry.to! < entry.from!;
+  // A range ending on 29 February ends on the 28th in other years; one starting there starts on 1 March
+  const rangeIn = (start: number, end: number) => [
+    annualKey(start, entry.from!) ?? `${start}-03-01`,
+    annualKey(end, entry.to!) ?? `${end}-02-28`,
+  ];
+  const ranges = annual
+    ? [rangeIn(year, wraps ? year + 1 : year), rangeIn(year - 1, wraps ? year : year - 1)]
+    : [[entry.from!, entry.to!]];
+
+  // Only the part of each range inside this year, however long the range
+  const first = `${year}-01-01`;
+  const last = `${year}-12-31`;
+  const dates: string[] = [];
+  for (const [from, to] of ranges) {
+    const end = parseISO(to < last ? to : last);
+    for (let current = parseISO(from > first ? from : first); current <= end; current = addDays(current, 1)) {
+      dates.push(format(current, 'yyyy-MM-dd'));
+    }
+  }
+  return dates;
+}
+
+function indexYear(entries: CompanyCalendarEntry[], year: number): Map<string, CompanyCalendarEntry[]> {
+  const index = new Map<string, CompanyCalendarEntry[]>();
+  for (const entry of entries) {
+    for (const date of entryDates(entry, year)) {
+      if (date.startsWith(`${year}-`)) {
+        index.set(date, [...(index.get(date) || []), entry]);
+      }
+    }
+  }
+  return index;
+}
+
+function yearIndex(calendar: LoadedCalendar, year: number): CompanyYear {
+  let days = calendar.years.get(year);
+  if (!days) {
+    days = {
+      nonWorking: indexYear(calendar.file.non_working || [], year),
+      working: indexYear(calendar.file.working || [], year),
+    };
+    calendar.years.set(year, days);
+  }
+  return days;
+}
+
+function appliesTo(entry: CompanyCalendarEntry, country: string): boolean {
+  return !entry.countries || entry.countries.map(c => c.toUpperCase()).includes(country);
+}
+
+function lookup(date: Date, country: string, kind: 'nonWorking' | 'working'): CompanyDay | null {
+  const calendar = loadCalendar();
+  if (!calendar) {
+    return null;
+  }
+
+  const entry = (yearIndex(calendar, date.getFullYear())[kind].get(format(date, 'yyyy-MM-dd')) || [])
+    .find(candidate => appliesTo(candidate, country));
+
+  return entry ? { calendar: calendar.file.name || 'Company calendar', name: entry.name } : null;
+}
+
+/**
+ * Warning when the configured company calendar file does not exist, or null
+ */
+export function getCompanyCalendarWarning(): string | null {
+  loadCalendar();
+  return missingPath ? `Company calendar ${missingPath} not found: no company closures or extra working days are applied` : null;
+}
+
+/**
+ * Company closure (shutdown, extra day off) on this date, if any
+ */
+export function getCompanyClosure(date: Date, country: string): CompanyDay | null {
+  return lookup(date, country, 'nonWorking');
+}
+
+/**
+ * Date the company calendar marks as worked even though it would not be
+ * (e.g. a Saturday release)
+ */
+export function getCompanyWorkingDay(date: Date, country: string): CompanyDay | null {
+  return lookup(date, country, 'working');
+}
+
+/**
+ * Every company closure and extra working day in a year for a country, as
+ * yyyy-MM-dd
+ */
+export function getCompanyCalendarDays(year: number, country: string): { nonWorking: string[]; working: string[] } {
+  const calendar = loadCalendar();
+  if (!calendar) {
+    return { nonWorking: [], working: [] };
+  }
+
+  const days = yearIndex(calendar, year);
+  const datesFor = (index: Map<string, CompanyCalendarEntry[]>) =>
+    [...index.entries()].filter(([, entries]) => entries.some(entry => appliesTo(entry, country))).map(([date]) => date);
+
+  return { nonWorking: datesFor(days.nonWorking), working: datesFor(days.working) };
+}
@@ -1,15 +1,31 @@
 // Configuration file for Date Operations MCP Server
 // Reads from environment variables with sensible defaults
 
+import { homedir } from 'os';
+import { join } from 'path';
+
 export interface Config {
   timezone: string;
   asanaDueHour: number;
   bankHolidayCountry: string;
+  bankHolidayRegion: string | null;
   enableBankHolidays: boolean;
+  verifyHolidaysOnline: boolean;
+  companyCalendarPath: string | null;
+  duePolicyPath: string | null;
+  workWeek: string | null;
+  workingHours: string;
+  lunchBreak: string | null;
+  holidayCacheDir: string;
+  holidayCacheTtlHours: number;
+  firstSprintStart: string | null;
+  sprintLengthWeeks: number | null;
+  sprintStartDay: string | null;
+  sprintShutdowns: string[];
 }
 
 // Country to timezone mapping
-const COUNTRY_TIMEZONES: Record<string, string> = {
+export const COUNTRY_TIMEZONES: Record<string, string> = {
   'NONE': 'Europe/London',
   'GB': 'Europe/London',
   'RO': 'Europe/Bucharest',
@@ -32,22 +48,81 @@ function getConfig(): Config {
   const bankHolidayCountry = (process.env.BANK_HOLIDAY_COUNTRY || 'NONE').toUpperCase();
   const enableBankHolidays = bankHolidayCountry !== 'NONE';
   
+  // Bank holiday region - e.g. SCT, NIR, CA, NSW (or GB-SCT, US-CA, AU-NSW)
+  const bankHolidayRegion = process.env.BANK_HOLIDAY_REGION
+    ? process.env.BANK_HOLIDAY_REGION.toUpperCase().replace(`${bankHolidayCountry}-`, '')
+    : null;
+  
   // Timezone - use country-specific timezone or allow manual override
-  const timezone = process.env.TIMEZONE || 
-                   COUNTRY_TIMEZONES[bankHolidayCountry] || 
-                   'Europe/London';
+  const countryTimezone = COUNTRY_TIMEZONES[bankHolidayCountry] || 'Europe/London';
+  let timezone = process.env.TIMEZONE || countryTimezone;
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone: timezone });
+  } catch (error) {
+    console.error(`Invalid TIMEZONE: ${process.env.TIMEZONE}. Using default: ${countryTimezone}`);
+    timezone = countryTimezone;
+  }
   
   // Asana due hour - defaults to 16 (4 PM)
-  const asanaDueHour = parseInt(process.env.ASANA_DUE_HOUR || '16', 10);
-  if (asanaDueHour < 0 || asanaDueHour > 23) {
+  let asanaDueHour = parseInt(process.env.ASANA_DUE_HOUR || '16', 10);
+  if (isNaN(asanaDueHour) || asanaDueHour < 0 || asanaDueHour > 23) {
     console.error(`Invalid ASANA_DUE_HOUR: ${process.env.ASANA_DUE_HOUR}. Using default: 16`);
+    asanaDueHour = 16;
+  }
+  
+  // Holidays are generated offline; optionally cross-check against GOV.UK / Nager.Date
+  const verifyHolidaysOnline = (process.env.VERIFY_HOLIDAYS_ONLINE || 'false').toLowerCase() === 'true';
+  
+  // Company calendar (JSON or YAML) with closures and extra working days
+  const companyCalendarPath = process.env.COMPANY_CALENDAR_FILE || null;
+  
+  // Named due-date policies (JSON or YAML) for the Asana tools
+  const duePolicyPath = process.env.DUE_POLICY_FILE || null;
+  
+  // Work week override, e.g. "sun-thu" or "mon,tue,wed,thu" - defaults per country
+  const workWeek = process.env.WORK_WEEK || null;
+  
+  // Business hours for working-hours arithmetic, e.g. "09:00-17:30" and "12:30-13:30"
+  const workingHours = process.env.WORKING_HOURS || '09:00-17:30';
+  const lunchBreak = process.env.LUNCH_BREAK || null;
+  
+  // On-disk cache for holidays fetched online
+  const holidayCacheDir = process.env.HOLIDAY_CACHE_DIR || join(homedir(), '.date-operations-mcp', 'holiday-cache');
+  let holidayCacheTtlHours = parseFloat(process.env.HOLIDAY_CACHE_TTL_HOURS || '24');
+  if (isNaN(holidayCacheTtlHours) || holidayCacheTtlHours < 0) {
+    console.error(`Invalid HOLIDAY_CACHE_TTL_HOURS: ${process.env.HOLIDAY_CACHE_TTL_HOURS}. Using default: 24`);
+    holidayCacheTtlHours = 24;
+  }
+  
+  // Default sprint cadence, e.g. FIRST_SPRINT_START=2026-01-05, SPRINT_LENGTH_WEEKS=2,
+  // SPRINT_START_DAY=wed and SPRINT_SHUTDOWNS=12-21/01-02 (comma-separated)
+  const firstSprintStart = process.env.FIRST_SPRINT_START || null;
+  let sprintLengthWeeks: number | null = process.env.SPRINT_LENGTH_WEEKS ? parseInt(process.env.SPRINT_LENGTH_WEEKS, 10) : null;
+  if (sprintLengthWeeks !== null && (isNaN(sprintLengthWeeks) || sprintLengthWeeks < 1)) {
+    console.error(`Invalid SPRINT_LENGTH_WEEKS: ${process.env.SPRINT_LENGTH_WEEKS}. Ignoring it`);
+    sprintLengthWeeks = null;
   }
+  const sprintStartDay = process.env.SPRINT_START_DAY || null;
+  const sprintShutdowns = (process.env.SPRINT_SHUTDOWNS || '').split(',').map(item => item.trim()).filter(Boolean);
   
   return {
     timezone: timezone,
-    asanaDueHour: Math.max(0, Math.min(23, asanaDueHour)),
+    asanaDueHour,
     bankHolidayCountry: bankHolidayCountry,
+    bankHolidayRegion,
     enableBankHolidays,
+    verifyHolidaysOnline,
+    companyCalendarPath,
+    duePolicyPath,
+    workWeek,
+    workingHours,
+    lunchBreak,
+    holidayCacheDir,
+    holidayCacheTtlHours,
+    firstSprintStart,
+    sprintLengthWeeks,
+    sprintStartDay,
+    sprintShutdowns,
   };
 }
 
@@ -56,6 +131,14 @@ export const config = getConfig();
 // Log configuration on startup
 console.error('Date Operations MCP Configuration:');
 console.error(`  Country: ${config.bankHolidayCountry}`);
+console.error(`  Region: ${config.bankHolidayRegion || 'National'}`);
 console.error(`  Timezone: ${config.timezone}`);
 console.error(`  Asana Due Hour: ${config.asanaDueHour}:00`);
-console.error(`  Bank Holidays: ${config.enableBankHolidays ? 'Enabled' : 'Disabled (weekends only)'}`);
\ No newline at end of file
+console.error(`  Bank Holidays: ${config.enableBankHolidays ? 'Enabled' : 'Disabled (weekends only)'}`);
+console.error(`  Online Holiday Check: ${config.verifyHolidaysOnline ? 'Enabled' : 'Disabled'}`);
+console.error(`  Holiday Cache: ${config.holidayCacheDir} (TTL ${config.holidayCacheTtlHours}h)`);
+console.error(`  Company Calendar: ${config.companyCalendarPath || 'None'}`);
+console.error(`  Due-date Policies: ${config.duePolicyPath || 'Built-in only'}`);
+console.error(`  Work Week: ${config.workWeek || 'Country default'}`);
+console.error(`  Working Hours: ${config.workingHours}${config.lunchBreak ? ` (lunch ${config.lunchBreak})` : ''}`);
+console.error(`  Sprints: ${config.firstSprintStart && config.sprintLengthWeeks ? `${config.sprintLengthWeeks} weeks from ${config.firstSprintStart}` : 'Not configured'}`);
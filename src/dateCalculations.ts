@@ -1,132 +1,435 @@
-import { addDays, subDays, differenceInDays, format, parseISO, isWeekend, addWeeks } from 'date-fns';
-import { formatInTimeZone, utcToZonedTime } from 'date-fns-tz';
-import { isUKBankHoliday } from './bankHolidays.js';
+import { addDays, differenceInCalendarDays, format, parseISO, getDay } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import { getHoliday, getHolidayCoverage, resolveCalendar, CalendarOptions, Holiday } from './bankHolidays.js';
+import { getCompanyCalendarWarning, getCompanyClosure, getCompanyWorkingDay } from './companyCalendar.js';
+import { config, COUNTRY_TIMEZONES } from './config.js';
+import { createWorkingDayIndex, fromDayNumber, getExceptionDays, toDayNumber, WorkingDayIndex } from './workingDayIndex.js';
+import { resolveWorkWeek, formatWorkWeek } from './workWeek.js';
 
-const UK_TIMEZONE = 'Europe/London';
+const MAX_COMMON_RANGE_DAYS = 731;
 
-export async function isWorkingDay(date: Date): Promise<boolean> {
-  if (isWeekend(date)) {
-    return false;
+/**
+ * Several calendars combined: a day is a working day when it is one in
+ * all of them ('all') or in at least one of them ('any')
+ */
+export interface MultiCalendar {
+  calendars: CalendarOptions[];
+  match: 'all' | 'any';
+}
+
+export type CalendarSelection = CalendarOptions | MultiCalendar;
+
+/** Which calendar source decided whether a day is worked */
+export type DaySource = 'weekday' | 'weekend' | 'public-holiday' | 'company-closure' | 'company-working-day';
+
+export interface DayStatus {
+  date: Date;
+  working: boolean;
+  source: DaySource;
+  reason: string;
+  /** Holiday on this date, even when something else decided the day */
+  holiday: Holiday | null;
+}
+
+/**
+ * How a non-working date moves (the usual business-day conventions):
+ * 'following' to the next working day, 'preceding' to the previous one,
+ * 'modified-following' forward unless that leaves the month, then back,
+ * 'modified-preceding' the reverse, 'nearest' to the closer one (forward on
+ * a tie)
+ */
+export type RollPolicy =
+  | 'none'
+  | 'following'
+  | 'preceding'
+  | 'modified-following'
+  | 'modified-preceding'
+  | 'nearest';
+
+export const ROLL_POLICIES: RollPolicy[] = [
+  'none', 'following', 'preceding', 'modified-following', 'modified-preceding', 'nearest',
+];
+
+export interface WorkingDayAdjustment {
+  original: Date;
+  date: Date;
+  moved: boolean;
+  /** Why the original date is or is not a working day */
+  status: DayStatus;
+  /** How the convention was applied, e.g. when a modified convention turned back at a month end */
+  explanation: string;
+}
+
+export interface WorkingDayOptions {
+  /** Count the start date itself (default: false when adding days, true when counting) */
+  includeStart?: boolean;
+  /** Count the end date itself (default: true) */
+  includeEnd?: boolean;
+  /** Move non-working start and end dates first (default: 'none') */
+  roll?: RollPolicy;
+}
+
+export interface CalendarException {
+  date: Date;
+  country: string;
+  region: string | null;
+  working: boolean;
+  source: DaySource;
+  reason: string;
+  holiday: Holiday | null;
+}
+
+export interface CommonWorkingDay {
+  date: Date;
+  working: boolean;
+  /** Calendars that are closed on this day, and why */
+  closed: Array<{ country: string; region: string | null; source: DaySource; reason: string }>;
+}
+
+function isMultiCalendar(selection: CalendarSelection): selection is MultiCalendar {
+  return 'calendars' in selection;
+}
+
+/**
+ * Timezone for a call: explicit timezone, then the country's office timezone,
+ * then TIMEZONE (which also applies when the configured country is named)
+ */
+export function resolveTimezone(calendar: CalendarOptions = {}): string {
+  if (calendar.timezone) {
+    try {
+      new Intl.DateTimeFormat('en-GB', { timeZone: calendar.timezone });
+    } catch (error) {
+      throw new Error(`Unknown timezone "${calendar.timezone}". Use an IANA name, e.g. "Europe/London" or "Asia/Colombo"`);
+    }
+    return calendar.timezone;
+  }
+  const country = calendar.country?.toUpperCase();
+  if (country && country !== config.bankHolidayCountry) {
+    return COUNTRY_TIMEZONES[country] || config.timezone;
   }
-  return !(await isUKBankHoliday(date));
+  return config.timezone;
 }
 
-export async function getNextWorkingDay(fromDate: Date): Promise<Date> {
-  let current = addDays(fromDate, 1);
-  
-  while (!(await isWorkingDay(current))) {
-    current = addDays(current, 1);
+/**
+ * Decide whether a day is worked and which source decided it. Company
+ * working days win over everything, then the work week, public holidays
+ * and company closures.
+ */
+export async function explainDay(date: Date, calendar: CalendarOptions = {}): Promise<DayStatus> {
+  const { country } = resolveCalendar(calendar);
+  const holiday = await getHoliday(date, calendar);
+
+  const extraWorkingDay = getCompanyWorkingDay(date, country);
+  if (extraWorkingDay) {
+    return { date, working: true, source: 'company-working-day', reason: `${extraWorkingDay.name} (${extraWorkingDay.calendar})`, holiday };
+  }
+
+  const workWeek = resolveWorkWeek(calendar);
+  if (!workWeek.includes(getDay(date))) {
+    return { date, working: false, source: 'weekend', reason: `Weekend (work week: ${formatWorkWeek(workWeek)})`, holiday };
   }
-  
-  return current;
+
+  if (holiday && holiday.type !== 'observance') {
+    return { date, working: false, source: 'public-holiday', reason: holiday.name, holiday };
+  }
+
+  const closure = getCompanyClosure(date, country);
+  if (closure) {
+    return { date, working: false, source: 'company-closure', reason: `${closure.name} (${closure.calendar})`, holiday };
+  }
+
+  if (holiday) {
+    return { date, working: true, source: 'weekday', reason: `Working day (${holiday.name} is an observance, not a day off)`, holiday };
+  }
+
+  return { date, working: true, source: 'weekday', reason: 'Working day', holiday };
 }
 
-export async function calculateWorkingDays(
+export async function isWorkingDay(date: Date, calendar: CalendarSelection = {}): Promise<boolean> {
+  if (isMultiCalendar(calendar)) {
+    const results = await Promise.all(calendar.calendars.map(single => isWorkingDay(date, single)));
+    return calendar.match === 'all' ? results.every(Boolean) : results.some(Boolean);
+  }
+
+  return (await explainDay(date, calendar)).working;
+}
+
+/**
+ * Days between two dates (inclusive, either order) where a holiday or the
+ * company calendar changes the usual weekday/weekend pattern. With a limit,
+ * only the first ones are explained; total still counts them all.
+ */
+export async function getCalendarExceptions(
   startDate: Date,
-  numDays: number,
-  direction: 'forward' | 'backward' = 'forward'
-): Promise<Date> {
-  let current = new Date(startDate);
-  let workingDaysCount = 0;
-  
-  const increment = direction === 'forward' ? 1 : -1;
-  const addOrSubtract = direction === 'forward' ? addDays : subDays;
-  
-  while (workingDaysCount < Math.abs(numDays)) {
-    current = addOrSubtract(current, 1);
-    
-    if (await isWorkingDay(current)) {
-      workingDaysCount++;
+  endDate: Date,
+  calendar: CalendarSelection = {},
+  options: { limit?: number } = {}
+): Promise<{ exceptions: CalendarException[]; total: number }> {
+  const calendars = isMultiCalendar(calendar) ? calendar.calendars : [calendar];
+  const [from, to] = [toDayNumber(startDate), toDayNumber(endDate)].sort((a, b) => a - b);
+
+  const candidates: Array<{ day: number; calendar: CalendarOptions; order: number }> = [];
+  for (const [order, single] of calendars.entries()) {
+    for (const day of await getExceptionDays(single, from, to)) {
+      candidates.push({ day, calendar: single, order });
     }
   }
-  
-  return current;
+  candidates.sort((a, b) => a.day - b.day || a.order - b.order);
+
+  const exceptions: CalendarException[] = [];
+  for (const candidate of candidates.slice(0, options.limit ?? candidates.length)) {
+    const status = await explainDay(fromDayNumber(candidate.day), candidate.calendar);
+    exceptions.push({ ...status, ...resolveCalendar(candidate.calendar) });
+  }
+
+  return { exceptions, total: candidates.length };
 }
 
-export async function getWorkingDaysBetween(startDate: Date, endDate: Date): Promise<number> {
-  const start = new Date(startDate);
-  const end = new Date(endDate);
-  
-  if (start > end) {
-    return 0;
+/**
+ * Working days across several calendars between two dates (inclusive), with
+ * a per-calendar breakdown of what closes each day
+ */
+export async function getCommonWorkingDays(
+  startDate: Date,
+  endDate: Date,
+  calendars: CalendarOptions[],
+  match: 'all' | 'any' = 'all'
+): Promise<CommonWorkingDay[]> {
+  if (calendars.length === 0) {
+    throw new Error('At least one calendar is required');
+  }
+
+  const rangeDays = differenceInCalendarDays(endDate, startDate);
+  if (rangeDays > MAX_COMMON_RANGE_DAYS) {
+    throw new Error(`Date range too long: ${rangeDays} days (maximum ${MAX_COMMON_RANGE_DAYS})`);
   }
-  
-  let workingDays = 0;
-  let current = new Date(start);
-  
-  while (current <= end) {
-    if (await isWorkingDay(current)) {
-      workingDays++;
+
+  const days: CommonWorkingDay[] = [];
+  let current = new Date(startDate);
+
+  while (current <= endDate) {
+    const closed: CommonWorkingDay['closed'] = [];
+
+    for (const calendar of calendars) {
+      const status = await explainDay(current, calendar);
+      if (!status.working) {
+        closed.push({ ...resolveCalendar(calendar), source: status.source, reason: status.reason });
+      }
     }
+
+    const working = match === 'all'
+      ? closed.length === 0
+      : closed.length < calendars.length;
+
+    days.push({ date: current, working, closed });
     current = addDays(current, 1);
   }
-  
-  return workingDays;
-}
-
-export function calculateSprintDates(startDate: Date, sprintLengthWeeks: number): {
-  start: Date;
-  end: Date;
-  length: number;
-} {
-  const start = new Date(startDate);
-  const end = addWeeks(start, sprintLengthWeeks);
-  const endAdjusted = subDays(end, 1); // Sprint ends day before next sprint starts
-  
-  return {
-    start,
-    end: endAdjusted,
-    length: sprintLengthWeeks
-  };
-}
-
-export function getCurrentSprintInfo(sprintStart: Date, sprintLengthWeeks: number): {
-  sprintNumber: number;
-  daysIntoSprint: number;
-  daysRemaining: number;
-  currentSprintStart: Date;
-  currentSprintEnd: Date;
-} {
-  const now = new Date();
-  const daysSinceStart = differenceInDays(now, sprintStart);
-  const sprintLengthDays = sprintLengthWeeks * 7;
-  
-  const sprintNumber = Math.floor(daysSinceStart / sprintLengthDays) + 1;
-  const daysIntoSprint = daysSinceStart % sprintLengthDays;
-  const daysRemaining = sprintLengthDays - daysIntoSprint;
-  
-  const currentSprintStart = addDays(sprintStart, (sprintNumber - 1) * sprintLengthDays);
-  const currentSprintEnd = addDays(currentSprintStart, sprintLengthDays - 1);
-  
-  return {
-    sprintNumber,
-    daysIntoSprint,
-    daysRemaining,
-    currentSprintStart,
-    currentSprintEnd
-  };
-}
-
-export function formatDateUK(date: Date): string {
-  return formatInTimeZone(date, UK_TIMEZONE, 'EEEE, MMMM d, yyyy');
+
+  return days;
+}
+
+export async function getNextWorkingDay(fromDate: Date, calendar: CalendarSelection = {}): Promise<Date> {
+  const index = createWorkingDayIndex(calendar);
+  return fromDayNumber(await index.advance(toDayNumber(fromDate), 1, 1));
+}
+
+/**
+ * Warnings for years in a range whose holiday data is incomplete, e.g. lunar
+ * holidays that are only bundled for some years, and for a missing company
+ * calendar file
+ */
+export function getHolidayDataWarnings(startDate: Date, endDate: Date, calendar: CalendarSelection = {}): string[] {
+  const [from, to] = startDate <= endDate ? [startDate, endDate] : [endDate, startDate];
+  const calendars = isMultiCalendar(calendar) ? calendar.calendars : [calendar];
+  const warnings: string[] = [];
+
+  for (const single of calendars) {
+    for (let year = from.getFullYear(); year <= to.getFullYear(); year++) {
+      const coverage = getHolidayCoverage(year, single);
+      if (coverage.complete) continue;
+
+      const label = coverage.region ? `${coverage.country}-${coverage.region}` : coverage.country;
+      const describe = (entries: typeof coverage.missing, covered: string) => entries.map(entry =>
+        `${entry.name} (${covered} ${entry.coveredYears[0]}–${entry.coveredYears[entry.coveredYears.length - 1]})`);
+      const missing = describe(coverage.missing.filter(entry => !entry.estimated), 'available');
+      const estimated = describe(coverage.missing.filter(entry => entry.estimated), 'published');
+      if (missing.length > 0) {
+        warnings.push(
+          `Holiday data for ${label} ${year} is incomplete: ${missing.join(', ')} ` +
+          `${missing.length === 1 ? 'is' : 'are'} missing, so ${missing.length === 1 ? 'it is' : 'they are'} treated as working days`
+        );
+      }
+      if (estimated.length > 0) {
+        warnings.push(
+          `Holiday dates for ${label} ${year} are estimated: ${estimated.join(', ')} ` +
+          `${estimated.length === 1 ? 'is' : 'are'} calculated from the full moon and may be a day out`
+        );
+      }
+    }
+  }
+
+  const companyWarning = getCompanyCalendarWarning();
+  if (companyWarning) {
+    warnings.push(companyWarning);
+  }
+  return warnings;
+}
+
+// Move a non-working day to a working day by a roll policy
+async function rollDay(index: WorkingDayIndex, day: number, roll: RollPolicy): Promise<number> {
+  if (roll === 'none' || await index.isWorking(day)) {
+    return day;
+  }
+
+  const month = fromDayNumber(day).getMonth();
+  const following = () => index.advance(day, 1, 1);
+  const preceding = () => index.advance(day, 1, -1);
+
+  switch (roll) {
+    case 'following':
+      return following();
+    case 'preceding':
+      return preceding();
+    case 'modified-following': {
+      const next = await following();
+      return fromDayNumber(next).getMonth() === month ? next : preceding();
+    }
+    case 'modified-preceding': {
+      const previous = await preceding();
+      return fromDayNumber(previous).getMonth() === month ? previous : following();
+    }
+    case 'nearest': {
+      const [next, previous] = [await following(), await preceding()];
+      return next - day <= day - previous ? next : previous;
+    }
+  }
+}
+
+/**
+ * A date moved off a non-working day by a roll policy; working days and
+ * 'none' return the date unchanged
+ */
+export async function rollToWorkingDay(date: Date, roll: RollPolicy, calendar: CalendarSelection = {}): Promise<Date> {
+  const index = createWorkingDayIndex(calendar);
+  return fromDayNumber(await rollDay(index, toDayNumber(date), roll));
+}
+
+/**
+ * Adjust a date to a working day by a business-day convention, explaining
+ * why it moved. With endOfMonth, a date on the last day of its month goes to
+ * the last working day of that month whatever the convention.
+ */
+export async function adjustToWorkingDay(
+  date: Date,
+  convention: RollPolicy,
+  calendar: CalendarOptions = {},
+  options: { endOfMonth?: boolean } = {}
+): Promise<WorkingDayAdjustment> {
+  const index = createWorkingDayIndex(calendar);
+  const day = toDayNumber(date);
+  const status = await explainDay(date, calendar);
+  const iso = (value: number) => format(fromDayNumber(value), 'yyyy-MM-dd');
+
+  let adjusted: number;
+  let explanation: string;
+
+  if (options.endOfMonth && addDays(date, 1).getMonth() !== date.getMonth()) {
+    adjusted = status.working ? day : await index.advance(day, 1, -1);
+    explanation = status.working
+      ? 'Last day of the month is a working day'
+      : `End of month rule: last working day of the month is ${iso(adjusted)}`;
+  } else {
+    adjusted = await rollDay(index, day, convention);
+
+    if (status.working) {
+      explanation = 'Already a working day';
+    } else if (convention === 'none') {
+      explanation = 'Not a working day, left unchanged (convention: none)';
+    } else if (convention === 'modified-following' && adjusted < day) {
+      explanation = `Next working day is in the next month, so moved back to ${iso(adjusted)}`;
+    } else if (convention === 'modified-preceding' && adjusted > day) {
+      explanation = `Previous working day is in the previous month, so moved forward to ${iso(adjusted)}`;
+    } else {
+      explanation = `Moved ${adjusted > day ? 'forward' : 'back'} to ${adjusted > day ? 'next' : 'previous'} working day ${iso(adjusted)} (${convention})`;
+    }
+  }
+
+  return { original: date, date: fromDayNumber(adjusted), moved: adjusted !== day, status, explanation };
+}
+
+/**
+ * The date numDays working days after startDate, or before it for a negative
+ * numDays or direction 'backward'. Like Excel's WORKDAY the start date is not
+ * counted, even when it is a working day, unless includeStart is set; then a
+ * working start date is day 1. The roll policy first moves a non-working
+ * start date, so 0 days returns the (rolled) start date.
+ */
+export async function calculateWorkingDays(
+  startDate: Date,
+  numDays: number,
+  direction: 'forward' | 'backward' = 'forward',
+  calendar: CalendarSelection = {},
+  options: WorkingDayOptions = {}
+): Promise<Date> {
+  const index = createWorkingDayIndex(calendar);
+  const offset = direction === 'backward' ? -Math.abs(numDays) : numDays;
+  const start = await rollDay(index, toDayNumber(startDate), options.roll || 'none');
+
+  const counted = options.includeStart && offset !== 0 && await index.isWorking(start) ? 1 : 0;
+  const result = await index.advance(start, Math.abs(offset) - counted, offset < 0 ? -1 : 1);
+  return fromDayNumber(result);
+}
+
+/**
+ * Working days from startDate to endDate. Both ends count by default (like
+ * Excel's NETWORKDAYS); a reversed range gives a negative count. The roll
+ * policy moves non-working ends first.
+ */
+export async function getWorkingDaysBetween(
+  startDate: Date,
+  endDate: Date,
+  calendar: CalendarSelection = {},
+  options: WorkingDayOptions = {}
+): Promise<number> {
+  const index = createWorkingDayIndex(calendar);
+  const roll = options.roll || 'none';
+  const start = await rollDay(index, toDayNumber(startDate), roll);
+  const end = await rollDay(index, toDayNumber(endDate), roll);
+  const startTrim = options.includeStart === false ? 1 : 0;
+  const endTrim = options.includeEnd === false ? 1 : 0;
+
+  return start <= end
+    ? index.count(start + startTrim, end - endTrim)
+    : -(await index.count(end + endTrim, start - startTrim));
+}
+
+// Calendar dates are plain Date objects at local midnight, so formatting them
+// must not shift them through a timezone again. Only "today" and times of day
+// depend on a timezone.
+export function formatDateLong(date: Date): string {
+  return format(date, 'EEEE, MMMM d, yyyy');
 }
 
 export function formatDateISO(date: Date): string {
-  return formatInTimeZone(date, UK_TIMEZONE, 'yyyy-MM-dd');
+  return format(date, 'yyyy-MM-dd');
 }
 
-export function formatDateTimeUK(date: Date): string {
-  return formatInTimeZone(date, UK_TIMEZONE, 'EEEE, MMMM d, yyyy \'at\' h:mm a');
+export function formatDateTime(date: Date, timezone: string = config.timezone): string {
+  return formatInTimeZone(date, timezone, 'EEEE, MMMM d, yyyy \'at\' h:mm a');
 }
 
 export function parseDate(dateString: string): Date {
-  try {
-    return utcToZonedTime(parseISO(dateString), UK_TIMEZONE);
-  } catch (error) {
+  const date = parseISO(dateString);
+  if (isNaN(date.getTime())) {
     throw new Error(`Invalid date string: ${dateString}. Expected ISO format (YYYY-MM-DD)`);
   }
+  return date;
 }
 
-export function getTodayUK(): Date {
-  return utcToZonedTime(new Date(), UK_TIMEZONE);
+/**
+ * Today's calendar date in a timezone, e.g. already tomorrow in Auckland
+ * while it is still evening in London
+ */
+export function getToday(timezone: string = config.timezone): Date {
+  return parseISO(formatInTimeZone(new Date(), timezone, 'yyyy-MM-dd'));
 }
\ No newline at end of file
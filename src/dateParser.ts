@@ -0,0 +1,474 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  endOfMonth,
+  endOfYear,
+  format,
+  getDay,
+  isValid,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { CalendarOptions } from './bankHolidays.js';
+import { calculateWorkingDays, getNextWorkingDay, isWorkingDay } from './dateCalculations.js';
+import { locateSprint, SprintCadence } from './sprints.js';
+import { lastDayOfWorkWeek, resolveWorkWeek } from './workWeek.js';
+
+// Natural-language date requests: "next Friday", "in 3 working days",
+// "2 weeks from Tuesday", "end of month", "3rd March", "03/03/2026",
+// "first Monday of next month", "by 2pm Friday". Numeric dates are read
+// day first (UK style). Anything not understood is an error, never a guess.
+
+export interface ParsedDateRequest {
+  /** Calendar date (local midnight) */
+  date: Date;
+  /** Time of day, when the request names one */
+  time: { hours: number; minutes: number } | null;
+  /** Which way to move off a non-working day: deadlines at the end of a period move back */
+  roll: 'forward' | 'backward' | 'none';
+  /** Name of the pattern that matched, e.g. "weekday" or "working-days-from" */
+  pattern: string;
+  /** Plain-English reading, e.g. "3 calendar days from 2026-10-18" */
+  interpretation: string;
+  /** "low" when the request has more than one reasonable reading */
+  confidence: ParseConfidence;
+  /** The other readings of an ambiguous request */
+  alternatives: DateCandidate[];
+}
+
+export type ParseConfidence = 'high' | 'medium' | 'low';
+
+export interface DateCandidate {
+  date: Date;
+  interpretation: string;
+}
+
+export interface DateParseOptions {
+  today: Date;
+  calendar?: CalendarOptions;
+  sprint?: SprintCadence;
+}
+
+type DatePart = Omit<ParsedDateRequest, 'time'>;
+
+export const WEEKDAYS: Record<string, number> = {
+  sunday: 0, sun: 0,
+  monday: 1, mon: 1,
+  tuesday: 2, tue: 2, tues: 2,
+  wednesday: 3, wed: 3,
+  thursday: 4, thu: 4, thur: 4, thurs: 4,
+  friday: 5, fri: 5,
+  saturday: 6, sat: 6,
+};
+
+const MONTHS: Record<string, number> = {
+  january: 0, jan: 0,
+  february: 1, feb: 1,
+  march: 2, mar: 2,
+  april: 3, apr: 3,
+  may: 4,
+  june: 5, jun: 5,
+  july: 6, jul: 6,
+  august: 7, aug: 7,
+  september: 8, sep: 8, sept: 8,
+  october: 9, oct: 9,
+  november: 10, nov: 10,
+  december: 11, dec: 11,
+};
+
+const NUMBER_WORDS: Record<string, string> = {
+  a: '1', an: '1', one: '1', two: '2', three: '3', four: '4', five: '5', six: '6',
+  seven: '7', eight: '8', nine: '9', ten: '10', eleven: '11', twelve: '12',
+};
+
+export const ORDINALS: Record<string, number> = {
+  first: 1, '1st': 1,
+  second: 2, '2nd': 2,
+  third: 3, '3rd': 3,
+  fourth: 4, '4th': 4,
+  fifth: 5, '5th': 5,
+  last: -1,
+};
+
+const WEEKDAY_PATTERN = Object.keys(WEEKDAYS).join('|');
+const MONTH_PATTERN = Object.keys(MONTHS).join('|');
+const ORDINAL_PATTERN = Object.keys(ORDINALS).join('|');
+
+const EXAMPLES = '"next Friday", "in 3 working days", "2 weeks from Tuesday", "end of month", ' +
+  '"3rd March", "03/03/2026", "first Monday of next month" or "by 2pm Friday"';
+
+function normalise(request: string): string {
+  return request
+    .toLowerCase()
+    .replace(/[.,!?]+$/, '')
+    .replace(/,/g, ' ')
+    .replace(/\bthe\b/g, ' ')
+    .replace(/\b(a|an|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)\b(?=\s+(working|business|day|week|month|year))/g,
+      word => NUMBER_WORDS[word])
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function stripPrefix(text: string): string {
+  return text.replace(/^(due by|due on|due|by|on|at|for)\s+/, '').trim();
+}
+
+// Pull "2pm", "14:30" or "noon" out of the request
+function extractTime(text: string): { rest: string; time: ParsedDateRequest['time'] } {
+  const patterns: Array<[RegExp, (match: RegExpMatchArray) => ParsedDateRequest['time']]> = [
+    [/(?:^|\s)(?:at |by )?(\d{1,2})(?::(\d{2}))?\s?(am|pm)(?=\s|$)/, match => {
+      const hour = Number(match[1]);
+      const minutes = Number(match[2] || 0);
+      if (hour < 1 || hour > 12 || minutes > 59) return null;
+      return { hours: (hour % 12) + (match[3] === 'pm' ? 12 : 0), minutes };
+    }],
+    [/(?:^|\s)(?:at |by )?(\d{1,2}):(\d{2})(?=\s|$)/, match => {
+      const hours = Number(match[1]);
+      const minutes = Number(match[2]);
+      return hours > 23 || minutes > 59 ? null : { hours, minutes };
+    }],
+    [/(?:^|\s)(?:at |by )?(noon|midday)(?=\s|$)/, () => ({ hours: 12, minutes: 0 })],
+  ];
+
+  for (const [pattern, toTime] of patterns) {
+    const match = text.match(pattern);
+    if (match) {
+      const time = toTime(match);
+      if (!time) {
+        throw new Error(`Invalid time "${match[0].trim()}"`);
+      }
+      return { rest: text.replace(match[0], ' ').replace(/\s+/g, ' ').trim(), time };
+    }
+  }
+
+  return { rest: text, time: null };
+}
+
+function dayInMonth(year: number, month: number, day: number): Date | null {
+  const date = new Date(year, month, day);
+  return isValid(date) && date.getMonth() === month && date.getDate() === day ? date : null;
+}
+
+// A day and month without a year means the next time that date comes round
+function resolveYear(today: Date, month: number, day: number, year?: number): Date | null {
+  if (year !== undefined) {
+    return dayInMonth(year < 100 ? 2000 + year : year, month, day);
+  }
+  const thisYear = dayInMonth(today.getFullYear(), month, day);
+  if (thisYear && thisYear >= today) {
+    return thisYear;
+  }
+  return dayInMonth(today.getFullYear() + 1, month, day);
+}
+
+// Other readings of a date whose stated weekday is wrong: that weekday in the
+// same week and, when the year was assumed, the next year the date falls on it
+function weekdayMismatchAlternatives(date: Date, weekday: number, yearAssumed: boolean): DateCandidate[] {
+  const sameWeek = addDays(startOfWeek(date, { weekStartsOn: 1 }), (weekday + 6) % 7);
+  const alternatives = [{ date: sameWeek, interpretation: `${format(sameWeek, 'EEEE d MMMM yyyy')} (that weekday in the same week)` }];
+
+  // Every day and month falls on each weekday within 28 years
+  for (let years = 1; yearAssumed && years <= 28; years++) {
+    const later = dayInMonth(date.getFullYear() + years, date.getMonth(), date.getDate());
+    if (later && getDay(later) === weekday) {
+      alternatives.push({ date: later, interpretation: `${format(later, 'EEEE d MMMM yyyy')} (the next year the date is a ${format(later, 'EEEE')})` });
+      break;
+    }
+  }
+
+  return alternatives;
+}
+
+function nthWeekdayOfMonth(monthStart: Date, weekday: number, n: number): Date | null {
+  if (n === -1) {
+    const last = endOfMonth(monthStart);
+    return addDays(last, -((getDay(last) - weekday + 7) % 7));
+  }
+  const first = addDays(monthStart, (weekday - getDay(monthStart) + 7) % 7);
+  const date = addWeeks(first, n - 1);
+  return date.getMonth() === monthStart.getMonth() ? date : null;
+}
+
+/**
+ * nth working day of the month starting monthStart (-1 for the last), or
+ * null if the month has fewer
+ */
+export async function nthWorkingDayOfMonth(monthStart: Date, n: number, calendar: CalendarOptions): Promise<Date | null> {
+  if (n === -1) {
+    const last = endOfMonth(monthStart);
+    return (await isWorkingDay(last, calendar)) ? last : calculateWorkingDays(last, 1, 'backward', calendar);
+  }
+  const first = (await isWorkingDay(monthStart, calendar)) ? monthStart : await getNextWorkingDay(monthStart, calendar);
+  const date = n === 1 ? first : await calculateWorkingDays(first, n - 1, 'forward', calendar);
+  return date.getMonth() === monthStart.getMonth() ? date : null;
+}
+
+// Which month "of next month", "of March" or "of March 2027" refers to
+function resolveMonth(text: string, today: Date): Date | null {
+  if (text === 'this month') return startOfMonth(today);
+  if (text === 'next month') return startOfMonth(addMonths(today, 1));
+
+  const match = text.match(new RegExp(`^(${MONTH_PATTERN})(?: (\\d{4}))?$`));
+  if (!match) return null;
+
+  const month = MONTHS[match[1]];
+  if (match[2]) return new Date(Number(match[2]), month, 1);
+  const year = month < today.getMonth() ? today.getFullYear() + 1 : today.getFullYear();
+  return new Date(year, month, 1);
+}
+
+function endOfSprint(options: DateParseOptions, sprintsAhead: number): Date {
+  if (!options.sprint) {
+    throw new Error('"end of sprint" needs first_sprint_start and sprint_length_weeks (or FIRST_SPRINT_START and SPRINT_LENGTH_WEEKS)');
+  }
+  // The current sprint, or the next one before the first sprint or during a shutdown
+  const position = locateSprint(options.sprint, options.today);
+  let sprint = position.sprint || position.next;
+  for (let ahead = 0; ahead < sprintsAhead; ahead++) {
+    const following = locateSprint(options.sprint, addDays(sprint.end, 1));
+    sprint = following.sprint || following.next;
+  }
+  return sprint.end;
+}
+
+function iso(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+function part(
+  date: Date,
+  roll: DatePart['roll'],
+  pattern: string,
+  interpretation: string,
+  confidence: ParseConfidence = 'high',
+  alternatives: DateCandidate[] = []
+): DatePart {
+  return { date, roll, pattern, interpretation, confidence, alternatives };
+}
+
+// "2 weeks from Tuesday": apply the same offset to every reading of the base date
+async function offsetFrom(
+  base: DatePart | null,
+  today: Date,
+  shift: (from: Date) => Date | Promise<Date>,
+  describe: (from: string) => string,
+  pattern: string,
+  roll: DatePart['roll']
+): Promise<DatePart> {
+  if (!base) {
+    return part(await shift(today), roll, pattern, describe(iso(today)));
+  }
+  const alternatives: DateCandidate[] = [];
+  for (const alternative of base.alternatives) {
+    alternatives.push({ date: await shift(alternative.date), interpretation: describe(alternative.interpretation) });
+  }
+  return part(await shift(base.date), roll, `${pattern}-from`, describe(base.interpretation), base.confidence, alternatives);
+}
+
+async function parseDatePart(text: string, options: DateParseOptions, nested = false): Promise<DatePart | null> {
+  const { today } = options;
+  const calendar = options.calendar || {};
+  let match: RegExpMatchArray | null;
+
+  if (text === 'today' || text === 'now') {
+    return part(today, 'forward', 'today', `today (${iso(today)})`);
+  }
+  if (text === 'tomorrow') {
+    return part(addDays(today, 1), 'forward', 'tomorrow', `tomorrow (${iso(addDays(today, 1))})`);
+  }
+  if (text === 'day after tomorrow') {
+    return part(addDays(today, 2), 'forward', 'day-after-tomorrow', `day after tomorrow (${iso(addDays(today, 2))})`);
+  }
+  if (!nested && ['next working day', 'next business day', 'default'].includes(text)) {
+    return part(await getNextWorkingDay(today, calendar), 'none', 'next-working-day', `next working day after ${iso(today)}`);
+  }
+
+  // "in 3 working days", "3 business days from Monday"
+  if ((match = text.match(/^(?:in )?(\d+) (?:working|business) days?(?: (?:from|after) (.+))?$/)) &&
+      (match[2] || text.startsWith('in '))) {
+    const base = match[2] && match[2] !== 'now' ? await parseDatePart(match[2], options, true) : null;
+    if (match[2] && match[2] !== 'now' && !base) return null;
+    const amount = Number(match[1]);
+    return offsetFrom(
+      base,
+      today,
+      from => calculateWorkingDays(from, amount, 'forward', calendar),
+      from => `${amount} working day${amount === 1 ? '' : 's'} from ${from}`,
+      base ? 'working-days' : 'in-working-days',
+      'none'
+    );
+  }
+
+  // "in 3 days", "in 2 weeks", "2 weeks from Tuesday", "a month from now"
+  if ((match = text.match(/^(?:in )?(\d+) (day|week|month|year)s?(?: (?:from|after) (.+))?$/)) &&
+      (match[3] || text.startsWith('in '))) {
+    const base = match[3] && match[3] !== 'now' ? await parseDatePart(match[3], options, true) : null;
+    if (match[3] && match[3] !== 'now' && !base) return null;
+    const amount = Number(match[1]);
+    const unit = match[2] as 'day' | 'week' | 'month' | 'year';
+    const add = { day: addDays, week: addWeeks, month: addMonths, year: addYears }[unit];
+    const label = unit === 'day' ? 'calendar day' : unit;
+    return offsetFrom(
+      base,
+      today,
+      from => add(from, amount),
+      from => `${amount} ${label}${amount === 1 ? '' : 's'} from ${from}`,
+      base ? `${unit}s` : `in-${unit}s`,
+      'forward'
+    );
+  }
+
+  // "end of week", "end of next month", "end of sprint", "eom"
+  const shorthand: Record<string, string> = { eow: 'end of week', eom: 'end of month', eoy: 'end of year' };
+  if ((match = (shorthand[text] || text).match(/^end of (this |next )?(week|month|sprint|year)$/))) {
+    const next = match[1] === 'next ';
+    const label = `end of ${next ? 'next' : 'this'} ${match[2]}`;
+    let confidence: ParseConfidence = 'high';
+    let date: Date;
+    switch (match[2]) {
+      case 'week': {
+        const weekStart = addWeeks(startOfWeek(today, { weekStartsOn: 1 }), next ? 1 : 0);
+        date = addDays(weekStart, (lastDayOfWorkWeek(resolveWorkWeek(calendar)) + 6) % 7);
+        // At the weekend, "end of week" means the coming one
+        if (date < today) {
+          date = addWeeks(date, 1);
+          confidence = 'medium';
+        }
+        break;
+      }
+      case 'month':
+        date = endOfMonth(addMonths(today, next ? 1 : 0));
+        break;
+      case 'year':
+        date = endOfYear(addYears(today, next ? 1 : 0));
+        break;
+      default:
+        date = endOfSprint(options, next ? 1 : 0);
+    }
+    return part(date, 'backward', `end-of-${match[2]}`, `${label} (${iso(date)})`, confidence);
+  }
+
+  // "next week", "next month", "start of next month"
+  if ((match = text.match(/^(?:start of |beginning of )?next (week|month)$/))) {
+    const date = match[1] === 'week'
+      ? addWeeks(startOfWeek(today, { weekStartsOn: 1 }), 1)
+      : startOfMonth(addMonths(today, 1));
+    return part(date, 'forward', `next-${match[1]}`, `start of next ${match[1]} (${iso(date)})`);
+  }
+
+  // "first Monday of next month", "last working day of March"
+  if ((match = text.match(new RegExp(`^(${ORDINAL_PATTERN}) (${WEEKDAY_PATTERN}|working day|business day) (?:of|in) (.+)$`)))) {
+    const monthStart = resolveMonth(match[3], today);
+    if (!monthStart) return null;
+    const n = ORDINALS[match[1]];
+    const date = match[2] in WEEKDAYS
+      ? nthWeekdayOfMonth(monthStart, WEEKDAYS[match[2]], n)
+      : await nthWorkingDayOfMonth(monthStart, n, calendar);
+    if (!date) {
+      throw new Error(`There is no ${match[1]} ${match[2]} in ${match[3]}`);
+    }
+    const what = match[2] in WEEKDAYS ? format(date, 'EEEE') : 'working day';
+    return part(date, 'none', 'nth-of-month', `${match[1]} ${what} of ${format(monthStart, 'MMMM yyyy')} (${iso(date)})`);
+  }
+
+  // "Friday", "this Friday", "next Friday", "Friday next week"
+  if ((match = text.match(new RegExp(`^(this |next |coming )?(${WEEKDAY_PATTERN})( next week)?$`)))) {
+    const weekday = WEEKDAYS[match[2]];
+    // The next time that day comes round, today included
+    const coming = addDays(today, (weekday - getDay(today) + 7) % 7);
+    // The named day in the week after this one (weeks start on Monday)
+    const nextWeek = addDays(addWeeks(startOfWeek(today, { weekStartsOn: 1 }), 1), (weekday + 6) % 7);
+    const name = format(coming, 'EEEE');
+
+    if (match[3]) {
+      return part(nextWeek, 'forward', 'next-weekday', `${name} of next week (${iso(nextWeek)})`);
+    }
+    if (match[1] === 'next ') {
+      // On a Thursday, "next Friday" may mean tomorrow or the Friday after
+      return coming.getTime() === nextWeek.getTime()
+        ? part(nextWeek, 'forward', 'next-weekday', `${name} of next week (${iso(nextWeek)})`)
+        : part(nextWeek, 'forward', 'next-weekday', `${name} of next week (${iso(nextWeek)})`, 'low', [
+          { date: coming, interpretation: `the coming ${name} (${iso(coming)})` },
+        ]);
+    }
+    if (coming.getTime() === today.getTime()) {
+      const weekLater = addWeeks(today, 1);
+      return part(today, 'forward', 'weekday', `today, ${name} (${iso(today)})`, 'low', [
+        { date: weekLater, interpretation: `${name} next week (${iso(weekLater)})` },
+      ]);
+    }
+    // "this Monday" on a Wednesday: this week's Monday has gone, so the coming one
+    const passed = match[1] === 'this ' && coming >= addWeeks(startOfWeek(today, { weekStartsOn: 1 }), 1);
+    return part(coming, 'forward', 'weekday', `the coming ${name} (${iso(coming)})`, passed ? 'medium' : 'high');
+  }
+
+  // ISO: 2026-03-03
+  if ((match = text.match(/^(\d{4})-(\d{2})-(\d{2})$/))) {
+    const date = dayInMonth(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    return date ? part(date, 'forward', 'iso-date', iso(date)) : null;
+  }
+
+  // UK numeric: 03/03/2026, 3/3/26, 3.3.2026, 3/3
+  if ((match = text.match(/^(\d{1,2})[/.-](\d{1,2})(?:[/.-](\d{2}|\d{4}))?$/))) {
+    const [first, second] = [Number(match[1]), Number(match[2])];
+    const year = match[3] ? Number(match[3]) : undefined;
+    const date = resolveYear(today, second - 1, first, year);
+    if (!date) return null;
+
+    // 03/04 is 3 April here, but 4 March to a US reader
+    const usReading = first !== second && first <= 12 ? resolveYear(today, first - 1, second, year) : null;
+    const interpretation = `${format(date, 'd MMMM yyyy')}, day first${year === undefined ? ' (year assumed)' : ''}`;
+    return usReading
+      ? part(date, 'forward', 'numeric-date', interpretation, 'low', [
+        { date: usReading, interpretation: `${format(usReading, 'd MMMM yyyy')}, month first (US style)` },
+      ])
+      : part(date, 'forward', 'numeric-date', interpretation, year === undefined ? 'medium' : 'high');
+  }
+
+  // "3rd March", "3 of March 2026", "Friday 3rd March", "March 3rd", "March 3 2026"
+  const dayMonth = text.match(new RegExp(`^(?:(${WEEKDAY_PATTERN}) )?(\\d{1,2})(?:st|nd|rd|th)?(?: of)? (${MONTH_PATTERN})(?: (\\d{4}))?$`));
+  const monthDay = text.match(new RegExp(`^(${MONTH_PATTERN}) (\\d{1,2})(?:st|nd|rd|th)?(?: (\\d{4}))?$`));
+  if (dayMonth || monthDay) {
+    const [weekday, day, month, year] = dayMonth
+      ? [dayMonth[1], Number(dayMonth[2]), MONTHS[dayMonth[3]], dayMonth[4]]
+      : [undefined, Number(monthDay![2]), MONTHS[monthDay![1]], monthDay![3]];
+    const date = resolveYear(today, month, day, year ? Number(year) : undefined);
+    if (!date) return null;
+    const pattern = dayMonth ? 'day-month' : 'month-day';
+
+    // "Friday 3rd March" when the 3rd is not a Friday: say so rather than pick one
+    if (weekday !== undefined && getDay(date) !== WEEKDAYS[weekday]) {
+      const alternatives = weekdayMismatchAlternatives(date, WEEKDAYS[weekday], !year);
+      const mismatch = `a ${format(date, 'EEEE')}, not a ${format(alternatives[0].date, 'EEEE')}`;
+      return part(date, 'forward', pattern, `${format(date, 'd MMMM yyyy')} (${year ? '' : 'year assumed; '}${mismatch})`, 'low', alternatives);
+    }
+    return year
+      ? part(date, 'forward', pattern, format(date, 'd MMMM yyyy'))
+      : part(date, 'forward', pattern, `${format(date, 'd MMMM yyyy')} (year assumed)`, 'medium');
+  }
+
+  return null;
+}
+
+/**
+ * Parse a natural-language date request relative to options.today.
+ * Throws when the request is not understood.
+ */
+export async function parseDateRequest(request: string, options: DateParseOptions): Promise<ParsedDateRequest> {
+  const text = stripPrefix(normalise(request));
+  const { rest, time } = extractTime(text);
+  const datePart = stripPrefix(rest);
+
+  // A time on its own ("by 3pm") means today
+  const parsed = datePart === ''
+    ? (time ? part(options.today, 'none', 'time-only', `today (${iso(options.today)})`) : null)
+    : await parseDatePart(datePart, options);
+
+  if (!parsed) {
+    throw new Error(`Could not understand "${request}" as a date. Try e.g. ${EXAMPLES}`);
+  }
+
+  return { ...parsed, time };
+}
@@ -0,0 +1,291 @@
+import { readFileSync, statSync } from 'fs';
+import { extname } from 'path';
+import { addDays, format, getDay, isSameDay, lastDayOfMonth } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import { parse as parseYaml } from 'yaml';
+import { CalendarOptions } from './bankHolidays.js';
+import { config } from './config.js';
+import {
+  calculateWorkingDays,
+  explainDay,
+  getToday,
+  resolveTimezone,
+  rollToWorkingDay,
+  ROLL_POLICIES,
+  RollPolicy,
+} from './dateCalculations.js';
+import { lastDayOfWorkWeek, parseWorkWeek, resolveWorkWeek } from './workWeek.js';
+
+// Due-date policies: how a team turns "when is this due?" into a day and a
+// time. "asana" is built in (next working day at ASANA_DUE_HOUR); more are
+// loaded from DUE_POLICY_FILE (JSON or YAML) and re-read whenever the file
+// changes. A policy in the file with the same name replaces the built-in one.
+//
+// Example (YAML):
+//   default: support
+//   policies:
+//     support:                  # same day if asked before noon
+//       lead_days: 0
+//       cutoff: "12:00"
+//       due_hour: 17
+//     review:                   # 3 working days out, never on a Friday
+//       lead_days: 3
+//       disallowed_weekdays: [fri]
+//     weekly-report:            # last working day of the week
+//       lead_days: 0
+//       period_end: week
+//     no-friday-afternoons:
+//       weekday_due_hours: { fri: 12 }
+
+export interface DuePolicy {
+  description?: string;
+  /** Working days after the start date; 0 for the same day. Default: 1 */
+  lead_days?: number;
+  /** "HH:mm": at or after this time today, count from the next working day */
+  cutoff?: string;
+  /** Default: ASANA_DUE_HOUR */
+  due_hour?: number;
+  /** Due hour on particular weekdays, e.g. { fri: 12 } */
+  weekday_due_hours?: Record<string, number>;
+  /** Never due on these weekdays, e.g. [fri] */
+  disallowed_weekdays?: string[];
+  /** Move the date on to the last working day of its week or month */
+  period_end?: 'week' | 'month';
+  /** How to move off a non-working or disallowed day. Default: following (preceding with period_end) */
+  roll?: RollPolicy;
+}
+
+export interface DuePolicyFile {
+  /** Policy used when a call names none. Default: asana */
+  default?: string;
+  policies?: Record<string, DuePolicy>;
+}
+
+export interface DueDay {
+  policy: string;
+  /** Calendar date (local midnight) */
+  day: Date;
+  hour: number;
+  /** What the policy did, e.g. "1 working day after 2026-10-16 (2026-10-19)" */
+  steps: string[];
+}
+
+interface LoadedPolicies {
+  path: string;
+  modified: number;
+  file: DuePolicyFile;
+}
+
+export const BUILT_IN_DUE_POLICIES: Record<string, DuePolicy> = {
+  asana: {
+    description: 'Next working day at ASANA_DUE_HOUR (so Friday → Monday)',
+    lead_days: 1,
+  },
+};
+
+const DEFAULT_POLICY = 'asana';
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+let loaded: LoadedPolicies | null = null;
+
+function validHour(hour: unknown): boolean {
+  return typeof hour === 'number' && Number.isInteger(hour) && hour >= 0 && hour <= 23;
+}
+
+function validatePolicy(name: string, policy: DuePolicy, path: string): void {
+  const where = `${path}: policy "${name}"`;
+
+  if (!policy || typeof policy !== 'object') {
+    throw new Error(`${where} must be an object`);
+  }
+  if (policy.lead_days !== undefined && (!Number.isInteger(policy.lead_days) || policy.lead_days < 0)) {
+    throw new Error(`${where} has an invalid lead_days: expected a whole number of working days (0 or more)`);
+  }
+  if (policy.cutoff !== undefined && !TIME.test(String(policy.cutoff))) {
+    throw new Error(`${where} has an invalid cutoff: expected HH:mm, e.g. "12:00"`);
+  }
+  if (policy.due_hour !== undefined && !validHour(policy.due_hour)) {
+    throw new Error(`${where} has an invalid due_hour: expected a whole hour from 0 to 23`);
+  }
+  for (const [day, hour] of Object.entries(policy.weekday_due_hours || {})) {
+    if (!validHour(hour)) {
+      throw new Error(`${where} has an invalid weekday_due_hours.${day}: expected a whole hour from 0 to 23`);
+    }
+  }
+  try {
+    weekdayHours(policy);
+    disallowedWeekdays(policy);
+  } catch (error) {
+    throw new Error(`${where}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (policy.period_end !== undefined && !['week', 'month'].includes(policy.period_end)) {
+    throw new Error(`${where} has an invalid period_end: expected "week" or "month"`);
+  }
+  if (policy.roll !== undefined && !ROLL_POLICIES.includes(policy.roll)) {
+    throw new Error(`${where} has an invalid roll: expected one of ${ROLL_POLICIES.join(', ')}`);
+  }
+}
+
+function readPolicyFile(path: string): DuePolicyFile {
+  let raw: string;
+  try {
+    raw = readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new Error(`Cannot read due-date policies ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const extension = extname(path).toLowerCase();
+  let file: DuePolicyFile;
+  try {
+    // Core schema keeps "12:00" a string (YAML 1.1 would read it as a number of minutes)
+    file = (extension === '.yaml' || extension === '.yml'
+      ? parseYaml(raw, { schema: 'core' })
+      : JSON.parse(raw)) as DuePolicyFile;
+  } catch (error) {
+    throw new Error(`Invalid due-date policies ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  for (const [name, policy] of Object.entries(file.policies || {})) {
+    validatePolicy(name, policy, path);
+  }
+  if (file.default !== undefined && !(file.default in { ...BUILT_IN_DUE_POLICIES, ...file.policies })) {
+    throw new Error(`${path}: default policy "${file.default}" is not defined`);
+  }
+
+  return file;
+}
+
+function loadPolicyFile(): DuePolicyFile | null {
+  const path = config.duePolicyPath;
+  if (!path) {
+    return null;
+  }
+
+  let modified: number;
+  try {
+    modified = statSync(path).mtimeMs;
+  } catch (error) {
+    throw new Error(`Due-date policy file not found: ${path}`);
+  }
+
+  if (!loaded || loaded.path !== path || loaded.modified !== modified) {
+    loaded = { path, modified, file: readPolicyFile(path) };
+  }
+
+  return loaded.file;
+}
+
+function weekdayHours(policy: DuePolicy): Map<number, number> {
+  return new Map(Object.entries(policy.weekday_due_hours || {}).map(([day, hour]) => [parseWorkWeek(day)[0], hour]));
+}
+
+function disallowedWeekdays(policy: DuePolicy): number[] {
+  return policy.disallowed_weekdays && policy.disallowed_weekdays.length > 0
+    ? parseWorkWeek(policy.disallowed_weekdays.join(','))
+    : [];
+}
+
+function iso(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Every policy available: the built-in ones and those in DUE_POLICY_FILE
+ */
+export function listDuePolicies(): { policies: Record<string, DuePolicy>; defaultPolicy: string } {
+  const file = loadPolicyFile();
+  return {
+    policies: { ...BUILT_IN_DUE_POLICIES, ...file?.policies },
+    defaultPolicy: file?.default || DEFAULT_POLICY,
+  };
+}
+
+/**
+ * A policy by name, or the default one. Throws for unknown names.
+ */
+export function resolveDuePolicy(name?: string): { name: string; policy: DuePolicy } {
+  const { policies, defaultPolicy } = listDuePolicies();
+  const resolved = name || defaultPolicy;
+  const policy = policies[resolved];
+  if (!policy) {
+    throw new Error(`Unknown due-date policy "${resolved}". Available: ${Object.keys(policies).join(', ')}`);
+  }
+  return { name: resolved, policy };
+}
+
+/**
+ * Move a date off non-working days and the policy's disallowed weekdays, and
+ * pick the due hour for the day it lands on
+ */
+export async function constrainDueDay(
+  date: Date,
+  calendar: CalendarOptions = {},
+  options: { policy?: string; dueHour?: number; roll?: RollPolicy } = {}
+): Promise<DueDay> {
+  const { name, policy } = resolveDuePolicy(options.policy);
+  const steps: string[] = [];
+  const disallowed = disallowedWeekdays(policy);
+  const allowed = resolveWorkWeek(calendar).filter(day => !disallowed.includes(day));
+  if (allowed.length === 0) {
+    throw new Error(`Due-date policy "${name}" disallows every day of the work week`);
+  }
+
+  // Disallowed weekdays are left out of the work week for the roll only
+  const roll = options.roll || policy.roll || (policy.period_end ? 'preceding' : 'following');
+  const day = await rollToWorkingDay(date, roll, {
+    ...calendar,
+    workWeek: allowed.map(weekday => DAY_NAMES[weekday]).join(','),
+  });
+
+  if (day.getTime() !== date.getTime()) {
+    const status = await explainDay(date, calendar);
+    const reason = status.working
+      ? `${format(date, 'EEEE')}s are not allowed by the "${name}" policy`
+      : status.reason;
+    steps.push(`moved to ${iso(day)} (${roll}): ${iso(date)} is not available (${reason})`);
+  }
+
+  // An hour asked for on the call beats the policy's weekday and default hours
+  const hour = options.dueHour ?? weekdayHours(policy).get(getDay(day)) ?? policy.due_hour ?? config.asanaDueHour;
+  return { policy: name, day, hour, steps };
+}
+
+/**
+ * Due day and hour for work starting on a date (today by default) under a
+ * policy: lead time in working days, cut-off, period end, then
+ * constrainDueDay
+ */
+export async function applyDuePolicy(
+  fromDate: Date | undefined,
+  calendar: CalendarOptions = {},
+  options: { policy?: string; dueHour?: number; now?: Date } = {}
+): Promise<DueDay> {
+  const { name, policy } = resolveDuePolicy(options.policy);
+  const timezone = resolveTimezone(calendar);
+  const today = getToday(timezone);
+  const start = fromDate || today;
+  const steps: string[] = [];
+  let leadDays = policy.lead_days ?? 1;
+
+  if (policy.cutoff && isSameDay(start, today) && formatInTimeZone(options.now || new Date(), timezone, 'HH:mm') >= policy.cutoff) {
+    leadDays++;
+    steps.push(`after the ${policy.cutoff} cut-off, so one more working day`);
+  }
+
+  let date = leadDays === 0 ? start : await calculateWorkingDays(start, leadDays, 'forward', calendar);
+  steps.push(leadDays === 0
+    ? `same day (${iso(start)})`
+    : `${leadDays} working day${leadDays === 1 ? '' : 's'} after ${iso(start)} (${iso(date)})`);
+
+  if (policy.period_end === 'week') {
+    date = addDays(date, (lastDayOfWorkWeek(resolveWorkWeek(calendar)) - getDay(date) + 7) % 7);
+    steps.push(`end of that week (${iso(date)})`);
+  } else if (policy.period_end === 'month') {
+    date = lastDayOfMonth(date);
+    steps.push(`end of that month (${iso(date)})`);
+  }
+
+  const constrained = await constrainDueDay(date, calendar, { policy: name, dueHour: options.dueHour });
+  return { ...constrained, steps: [...steps, ...constrained.steps] };
+}
@@ -0,0 +1,71 @@
+import { mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { config } from './config.js';
+
+// On-disk cache of holidays fetched from remote sources (GOV.UK, Nager.Date),
+// one file per calendar and year:
+//   <HOLIDAY_CACHE_DIR>/GB-SCT/2026.json
+//   <HOLIDAY_CACHE_DIR>/LK/2026.json
+// The data is only compared with the generated holidays, never used for
+// answers. Entries older than HOLIDAY_CACHE_TTL_HOURS are refetched, but kept
+// and compared (marked stale) when the network is unavailable.
+
+export type RemoteHolidaySource = 'gov.uk' | 'nager.date';
+
+export interface CachedRemoteHolidays {
+  country: string;
+  region: string | null;
+  year: number;
+  source: RemoteHolidaySource;
+  /** ISO timestamp */
+  fetchedAt: string;
+  dates: string[];
+}
+
+export interface CacheLookup {
+  entry: CachedRemoteHolidays;
+  stale: boolean;
+}
+
+function calendarDir(country: string, region: string | null): string {
+  return join(config.holidayCacheDir, region ? `${country}-${region}` : country);
+}
+
+export function isStale(entry: CachedRemoteHolidays, now: Date = new Date()): boolean {
+  return now.getTime() - new Date(entry.fetchedAt).getTime() > config.holidayCacheTtlHours * 60 * 60 * 1000;
+}
+
+export function readCachedHolidays(country: string, region: string | null, year: number): CacheLookup | null {
+  try {
+    const entry = JSON.parse(readFileSync(join(calendarDir(country, region), `${year}.json`), 'utf8')) as CachedRemoteHolidays;
+    return { entry, stale: isStale(entry) };
+  } catch (error) {
+    // Missing or unreadable files are treated as not cached
+    return null;
+  }
+}
+
+export function writeCachedHolidays(entry: CachedRemoteHolidays): void {
+  try {
+    const dir = calendarDir(entry.country, entry.region);
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, `${entry.year}.json`), JSON.stringify(entry, null, 2));
+  } catch (error) {
+    console.error(`Failed to write holiday cache in ${config.holidayCacheDir}:`, error);
+  }
+}
+
+/**
+ * Years cached on disk for a calendar, oldest first
+ */
+export function listCachedYears(country: string, region: string | null): number[] {
+  try {
+    return readdirSync(calendarDir(country, region))
+      .map(file => file.match(/^(\d{4})\.json$/))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(match => Number(match[1]))
+      .sort((a, b) => a - b);
+  } catch (error) {
+    return [];
+  }
+}
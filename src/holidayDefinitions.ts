@@ -0,0 +1,607 @@
+import { CountryHolidayDefinition } from './holidayRules.js';
+
+// National public holidays for every country in COUNTRY_TIMEZONES.
+// Weekdays: 0 = Sunday ... 6 = Saturday. Months are 1-based.
+// Names are in English, with localName where the local name differs.
+//
+// Holidays that follow a lunar or announced calendar cannot be derived from
+// rules, so they are bundled as per-year tables: announced dates back to 2023
+// for backdated reporting, and projected ones (from the lunar calendar, to be
+// checked when the government announces them) up to 2027. Years outside those
+// tables fall back to the rule-based holidays only, and getHolidayCoverage
+// reports them as incomplete.
+
+const MON = 1;
+const TUE = 2;
+const THU = 4;
+
+export const HOLIDAY_DEFINITIONS: Record<string, CountryHolidayDefinition> = {
+  GB: {
+    // National rules are England and Wales; Scotland and Northern Ireland differ
+    substitutePolicy: 'next-weekday',
+    holidayType: 'bank',
+    rules: [
+      { type: 'fixed', name: "New Year's Day", month: 1, day: 1, substitute: true },
+      { type: 'easter', name: 'Good Friday', offset: -2 },
+      { type: 'easter', name: 'Easter Monday', offset: 1 },
+      { type: 'nth-weekday', name: 'Early May bank holiday', month: 5, weekday: MON, n: 1, skipYears: [2020] },
+      { type: 'nth-weekday', name: 'Spring bank holiday', month: 5, weekday: MON, n: -1, skipYears: [2022] },
+      { type: 'nth-weekday', name: 'Summer bank holiday', month: 8, weekday: MON, n: -1 },
+      { type: 'fixed', name: 'Christmas Day', month: 12, day: 25, substitute: true },
+      { type: 'fixed', name: 'Boxing Day', month: 12, day: 26, substitute: true },
+    ],
+    oneOff: {
+      2020: [{ date: '2020-05-08', name: 'Early May bank holiday (VE day)' }],
+      2022: [
+        { date: '2022-06-02', name: 'Spring bank holiday' },
+        { date: '2022-06-03', name: 'Platinum Jubilee bank holiday' },
+        { date: '2022-09-19', name: 'Bank Holiday for the State Funeral of Queen Elizabeth II' },
+      ],
+      2023: [{ date: '2023-05-08', name: 'Bank holiday for the coronation of King Charles III' }],
+    },
+    regions: {
+      ENG: { name: 'England', rules: [] },
+      WLS: { name: 'Wales', rules: [] },
+      SCT: {
+        name: 'Scotland',
+        exclude: ['Easter Monday', 'Summer bank holiday'],
+        rules: [
+          { type: 'fixed', name: '2nd January', month: 1, day: 2, substitute: true },
+          { type: 'nth-weekday', name: 'Summer bank holiday', month: 8, weekday: MON, n: 1 },
+          { type: 'fixed', name: "St Andrew's Day", month: 11, day: 30, substitute: true },
+        ],
+      },
+      NIR: {
+        name: 'Northern Ireland',
+        rules: [
+          { type: 'fixed', name: "St Patrick's Day", month: 3, day: 17, substitute: true },
+          { type: 'fixed', name: 'Battle of the Boyne (Orangemen\'s Day)', month: 7, day: 12, substitute: true },
+        ],
+      },
+    },
+  },
+
+  RO: {
+    substitutePolicy: 'none',
+    rules: [
+      { type: 'fixed', name: "New Year's Day", localName: 'Anul Nou', month: 1, day: 1 },
+      { type: 'fixed', name: "Day after New Year's Day", localName: 'Anul Nou (a doua zi)', month: 1, day: 2 },
+      { type: 'fixed', name: 'Epiphany', localName: 'Boboteaza', month: 1, day: 6, fromYear: 2024 },
+      { type: 'fixed', name: 'St. John the Baptist', localName: 'Sfântul Ioan Botezătorul', month: 1, day: 7, fromYear: 2024 },
+      { type: 'fixed', name: 'Union Day', localName: 'Ziua Unirii Principatelor Române', month: 1, day: 24 },
+      { type: 'easter', name: 'Good Friday', localName: 'Vinerea Mare', offset: -2, calendar: 'orthodox', fromYear: 2018 },
+      { type: 'easter', name: 'Easter Sunday', localName: 'Paștele', offset: 0, calendar: 'orthodox' },
+      { type: 'easter', name: 'Easter Monday', localName: 'A doua zi de Paște', offset: 1, calendar: 'orthodox' },
+      { type: 'fixed', name: 'Labour Day', localName: 'Ziua Muncii', month: 5, day: 1 },
+      { type: 'fixed', name: "Children's Day", localName: 'Ziua Copilului', month: 6, day: 1 },
+      { type: 'easter', name: 'Pentecost', localName: 'Rusaliile', offset: 49, calendar: 'orthodox' },
+      { type: 'easter', name: 'Whit Monday', localName: 'A doua zi de Rusalii', offset: 50, calendar: 'orthodox' },
+      { type: 'fixed', name: 'Assumption Day', localName: 'Adormirea Maicii Domnului', month: 8, day: 15 },
+      { type: 'fixed', name: "St. Andrew's Day", localName: 'Sfântul Andrei', month: 11, day: 30 },
+      { type: 'fixed', name: 'National Day', localName: 'Ziua Națională a României', month: 12, day: 1 },
+      { type: 'fixed', name: 'Christmas Day', localName: 'Crăciunul', month: 12, day: 25 },
+      { type: 'fixed', name: 'Second Day of Christmas', localName: 'A doua zi de Crăciun', month: 12, day: 26 },
+    ],
+  },
+
+  ES: {
+    // National holidays only; each autonomous community adds its own
+    substitutePolicy: 'none',
+    rules: [
+      { type: 'fixed', name: "New Year's Day", localName: 'Año Nuevo', month: 1, day: 1 },
+      { type: 'fixed', name: 'Epiphany', localName: 'Epifanía del Señor', month: 1, day: 6 },
+      { type: 'easter', name: 'Good Friday', localName: 'Viernes Santo', offset: -2 },
+      { type: 'fixed', name: 'Labour Day', localName: 'Fiesta del Trabajo', month: 5, day: 1 },
+      { type: 'fixed', name: 'Assumption Day', localName: 'Asunción de la Virgen', month: 8, day: 15 },
+      { type: 'fixed', name: 'National Day', localName: 'Fiesta Nacional de España', month: 10, day: 12 },
+      { type: 'fixed', name: "All Saints' Day", localName: 'Todos los Santos', month: 11, day: 1 },
+      { type: 'fixed', name: 'Constitution Day', localName: 'Día de la Constitución Española', month: 12, day: 6 },
+      { type: 'fixed', name: 'Immaculate Conception', localName: 'Inmaculada Concepción', month: 12, day: 8 },
+      { type: 'fixed', name: 'Christmas Day', localName: 'Navidad', month: 12, day: 25 },
+    ],
+  },
+
+  IE: {
+    substitutePolicy: 'next-weekday',
+    rules: [
+      { type: 'fixed', name: "New Year's Day", month: 1, day: 1, substitute: true },
+      { type: 'nth-weekday', name: "St. Brigid's Day", month: 2, weekday: MON, n: 1, fromYear: 2023 },
+      { type: 'fixed', name: "St. Patrick's Day", month: 3, day: 17, substitute: true },
+      { type: 'easter', name: 'Easter Monday', offset: 1 },
+      { type: 'nth-weekday', name: 'May Day', month: 5, weekday: MON, n: 1 },
+      { type: 'nth-weekday', name: 'June Bank Holiday', month: 6, weekday: MON, n: 1 },
+      { type: 'nth-weekday', name: 'August Bank Holiday', month: 8, weekday: MON, n: 1 },
+      { type: 'nth-weekday', name: 'October Bank Holiday', month: 10, weekday: MON, n: -1 },
+      { type: 'fixed', name: 'Christmas Day', month: 12, day: 25, substitute: true },
+      { type: 'fixed', name: "St. Stephen's Day", month: 12, day: 26, substitute: true },
+    ],
+  },
+
+  DK: {
+    substitutePolicy: 'none',
+    rules: [
+      { type: 'fixed', name: "New Year's Day", localName: 'Nytårsdag', month: 1, day: 1 },
+      { type: 'easter', name: 'Maundy Thursday', localName: 'Skærtorsdag', offset: -3 },
+      { type: 'easter', name: 'Good Friday', localName: 'Langfredag', offset: -2 },
+      { type: 'easter', name: 'Easter Sunday', localName: 'Påskedag', offset: 0 },
+      { type: 'easter', name: 'Easter Monday', localName: '2. påskedag', offset: 1 },
+      { type: 'easter', name: 'General Prayer Day', localName: 'Store bededag', offset: 26, toYear: 2023 },
+      { type: 'easter', name: 'Ascension Day', localName: 'Kristi himmelfartsdag', offset: 39 },
+      { type: 'easter', name: 'Whit Sunday', localName: 'Pinsedag', offset: 49 },
+      { type: 'easter', name: 'Whit Monday', localName: '2. pinsedag', offset: 50 },
+      { type: 'fixed', name: 'Constitution Day', localName: 'Grundlovsdag', month: 6, day: 5, holidayType: 'observance' },
+      { type: 'fixed', name: 'Christmas Day', localName: 'Juledag', month: 12, day: 25 },
+      { type: 'fixed', name: "St. Stephen's Day", localName: '2. juledag', month: 12, day: 26 },
+    ],
+  },
+
+  DE: {
+    // Nationwide holidays only; the Länder add their own
+    substitutePolicy: 'none',
+    rules: [
+      { type: 'fixed', name: "New Year's Day", localName: 'Neujahr', month: 1, day: 1 },
+      { type: 'easter', name: 'Good Friday', localName: 'Karfreitag', offset: -2 },
+      { type: 'easter', name: 'Easter Monday', localName: 'Ostermontag', offset: 1 },
+      { type: 'fixed', name: 'Labour Day', localName: 'Tag der Arbeit', month: 5, day: 1 },
+      { type: 'easter', name: 'Ascension Day', localName: 'Christi Himmelfahrt', offset: 39 },
+      { type: 'easter', name: 'Whit Monday', localName: 'Pfingstmontag', offset: 50 },
+      { type: 'fixed', name: 'German Unity Day', localName: 'Tag der Deutschen Einheit', month: 10, day: 3 },
+      { type: 'fixed', name: 'Christmas Day', localName: 'Erster Weihnachtstag', month: 12, day: 25 },
+      { type: 'fixed', name: "St. Stephen's Day", localName: 'Zweiter Weihnachtstag', month: 12, day: 26 },
+    ],
+  },
+
+  PL: {
+    substitutePolicy: 'none',
+    rules: [
+      { type: 'fixed', name: "New Year's Day", localName: 'Nowy Rok', month: 1, day: 1 },
+      { type: 'fixed', name: 'Epiphany', localName: 'Święto Trzech Króli', month: 1, day: 6, fromYear: 2011 },
+      { type: 'easter', name: 'Easter Sunday', localName: 'Wielkanoc', offset: 0 },
+      { type: 'easter', name: 'Easter Monday', localName: 'Drugi Dzień Wielkanocy', offset: 1 },
+      { type: 'fixed', name: 'Labour Day', localName: 'Święto Pracy', month: 5, day: 1 },
+      { type: 'fixed', name: 'Constitution Day', localName: 'Święto Narodowe Trzeciego Maja', month: 5, day: 3 },
+      { type: 'easter', name: 'Pentecost', localName: 'Zielone Świątki', offset: 49 },
+      { type: 'easter', name: 'Corpus Christi', localName: 'Boże Ciało', offset: 60 },
+      { type: 'fixed', name: 'Assumption Day', localName: 'Wniebowzięcie Najświętszej Maryi Panny', month: 8, day: 15 },
+      { type: 'fixed', name: "All Saints' Day", localName: 'Wszystkich Świętych', month: 11, day: 1 },
+      { type: 'fixed', name: 'Independence Day', localName: 'Narodowe Święto Niepodległości', month: 11, day: 11 },
+      { type: 'fixed', name: 'Christmas Eve', localName: 'Wigilia Bożego Narodzenia', month: 12, day: 24, fromYear: 2025 },
+      { type: 'fixed', name: 'Christmas Day', localName: 'Boże Narodzenie (pierwszy dzień)', month: 12, day: 25 },
+      { type: 'fixed', name: "St. Stephen's Day", localName: 'Boże Narodzenie (drugi dzień)', month: 12, day: 26 },
+    ],
+  },
+
+  US: {
+    // Federal holidays
+    substitutePolicy: 'nearest-weekday',
+    rules: [
+      { type: 'fixed', name: "New Year's Day", month: 1, day: 1, substitute: true },
+      { type: 'nth-weekday', name: 'Martin Luther King, Jr. Day', month: 1, weekday: MON, n: 3 },
+      { type: 'nth-weekday', name: "Washington's Birthday", month: 2, weekday: MON, n: 3 },
+      { type: 'nth-weekday', name: 'Memorial Day', month: 5, weekday: MON, n: -1 },
+      { type: 'fixed', name: 'Juneteenth National Independence Day', month: 6, day: 19, substitute: true, fromYear: 2021 },
+      { type: 'fixed', name: 'Independence Day', month: 7, day: 4, substitute: true },
+      { type: 'nth-weekday', name: 'Labor Day', month: 9, weekday: MON, n: 1 },
+      { type: 'nth-weekday', name: 'Columbus Day', month: 10, weekday: MON, n: 2 },
+      { type: 'fixed', name: 'Veterans Day', month: 11, day: 11, substitute: true },
+      { type: 'nth-weekday', name: 'Thanksgiving Day', month: 11, weekday: THU, n: 4 },
+      { type: 'fixed', name: 'Christmas Day', month: 12, day: 25, substitute: true },
+    ],
+    regions: {
+      CA: {
+        name: 'California',
+        rules: [
+          { type: 'fixed', name: 'César Chávez Day', month: 3, day: 31, substitute: true },
+          { type: 'nth-weekday', name: 'Day after Thanksgiving', month: 11, weekday: THU, n: 4, offset: 1 },
+        ],
+      },
+      MA: {
+        name: 'Massachusetts',
+        rules: [
+          { type: 'nth-weekday', name: "Patriots' Day", month: 4, weekday: MON, n: 3 },
+        ],
+      },
+      ME: {
+        name: 'Maine',
+        rules: [
+          { type: 'nth-weekday', name: "Patriots' Day", month: 4, weekday: MON, n: 3 },
+        ],
+      },
+      NY: {
+        name: 'New York',
+        rules: [
+          { type: 'fixed', name: "Lincoln's Birthday", month: 2, day: 12, substitute: true },
+          { type: 'nth-weekday', name: 'Election Day', month: 11, weekday: MON, n: 1, offset: 1 },
+        ],
+      },
+      TX: {
+        name: 'Texas',
+        exclude: ['Columbus Day'],
+        rules: [
+          { type: 'fixed', name: 'Texas Independence Day', month: 3, day: 2 },
+          { type: 'fixed', name: 'San Jacinto Day', month: 4, day: 21 },
+          { type: 'fixed', name: 'Lyndon Baines Johnson Day', month: 8, day: 27 },
+          { type: 'nth-weekday', name: 'Day after Thanksgiving', month: 11, weekday: THU, n: 4, offset: 1 },
+          { type: 'fixed', name: 'Christmas Eve', month: 12, day: 24 },
+          { type: 'fixed', name: 'Day after Christmas', month: 12, day: 26 },
+        ],
+      },
+    },
+  },
+
+  NZ: {
+    // Mondayisation: weekend holidays move to the next free weekday
+    substitutePolicy: 'next-weekday',
+    rules: [
+      { type: 'fixed', name: "New Year's Day", month: 1, day: 1, substitute: true },
+      { type: 'fixed', name: "Day after New Year's Day", month: 1, day: 2, substitute: true },
+      { type: 'fixed', name: 'Waitangi Day', month: 2, day: 6, substitute: true },
+      { type: 'easter', name: 'Good Friday', offset: -2 },
+      { type: 'easter', name: 'Easter Monday', offset: 1 },
+      { type: 'fixed', name: 'Anzac Day', month: 4, day: 25, substitute: true },
+      { type: 'nth-weekday', name: "King's Birthday", month: 6, weekday: MON, n: 1 },
+      {
+        type: 'table',
+        name: 'Matariki',
+        dates: {
+          2022: ['2022-06-24'], 2023: ['2023-07-14'], 2024: ['2024-06-28'],
+          2025: ['2025-06-20'], 2026: ['2026-07-10'], 2027: ['2027-06-25'],
+          2028: ['2028-07-14'], 2029: ['2029-07-06'], 2030: ['2030-06-21'],
+        },
+      },
+      { type: 'nth-weekday', name: 'Labour Day', month: 10, weekday: MON, n: 4 },
+      { type: 'fixed', name: 'Christmas Day', month: 12, day: 25, substitute: true },
+      { type: 'fixed', name: 'Boxing Day', month: 12, day: 26, substitute: true },
+    ],
+  },
+
+  AU: {
+    // National holidays only; states add their own
+    substitutePolicy: 'next-weekday',
+    rules: [
+      { type: 'fixed', name: "New Year's Day", month: 1, day: 1, substitute: true },
+      { type: 'fixed', name: 'Australia Day', month: 1, day: 26, substitute: true },
+      { type: 'easter', name: 'Good Friday', offset: -2 },
+      { type: 'easter', name: 'Easter Monday', offset: 1 },
+      { type: 'fixed', name: 'Anzac Day', month: 4, day: 25 },
+      { type: 'fixed', name: 'Christmas Day', month: 12, day: 25, substitute: true },
+      { type: 'fixed', name: 'Boxing Day', month: 12, day: 26, substitute: true },
+    ],
+    regions: {
+      ACT: {
+        name: 'Australian Capital Territory',
+        rules: [
+          { type: 'nth-weekday', name: 'Canberra Day', month: 3, weekday: MON, n: 2 },
+          { type: 'easter', name: 'Easter Saturday', offset: -1 },
+          { type: 'easter', name: 'Easter Sunday', offset: 0 },
+          { type: 'weekday-on-or-after', name: 'Reconciliation Day', month: 5, day: 27, weekday: MON, fromYear: 2018 },
+          { type: 'nth-weekday', name: "King's Birthday", month: 6, weekday: MON, n: 2 },
+          { type: 'nth-weekday', name: 'Labour Day', month: 10, weekday: MON, n: 1 },
+        ],
+      },
+      NSW: {
+        name: 'New South Wales',
+        rules: [
+          { type: 'easter', name: 'Easter Saturday', offset: -1 },
+          { type: 'easter', name: 'Easter Sunday', offset: 0 },
+          { type: 'nth-weekday', name: "King's Birthday", month: 6, weekday: MON, n: 2 },
+          { type: 'nth-weekday', name: 'Labour Day', month: 10, weekday: MON, n: 1 },
+        ],
+      },
+      NT: {
+        name: 'Northern Territory',
+        rules: [
+          { type: 'easter', name: 'Easter Saturday', offset: -1 },
+          { type: 'nth-weekday', name: 'May Day', month: 5, weekday: MON, n: 1 },
+          { type: 'nth-weekday', name: "King's Birthday", month: 6, weekday: MON, n: 2 },
+          { type: 'nth-weekday', name: 'Picnic Day', month: 8, weekday: MON, n: 1 },
+        ],
+      },
+      QLD: {
+        name: 'Queensland',
+        rules: [
+          { type: 'easter', name: 'Easter Saturday', offset: -1 },
+          { type: 'easter', name: 'Easter Sunday', offset: 0 },
+          { type: 'nth-weekday', name: 'Labour Day', month: 5, weekday: MON, n: 1 },
+          { type: 'nth-weekday', name: "King's Birthday", month: 10, weekday: MON, n: 1 },
+        ],
+      },
+      SA: {
+        name: 'South Australia',
+        rules: [
+          { type: 'nth-weekday', name: 'Adelaide Cup Day', month: 3, weekday: MON, n: 2 },
+          { type: 'easter', name: 'Easter Saturday', offset: -1 },
+          { type: 'nth-weekday', name: "King's Birthday", month: 6, weekday: MON, n: 2 },
+          { type: 'nth-weekday', name: 'Labour Day', month: 10, weekday: MON, n: 1 },
+        ],
+      },
+      TAS: {
+        name: 'Tasmania',
+        rules: [
+          { type: 'nth-weekday', name: 'Eight Hours Day', month: 3, weekday: MON, n: 2 },
+          { type: 'nth-weekday', name: "King's Birthday", month: 6, weekday: MON, n: 2 },
+        ],
+      },
+      VIC: {
+        name: 'Victoria',
+        rules: [
+          { type: 'nth-weekday', name: 'Labour Day', month: 3, weekday: MON, n: 2 },
+          { type: 'easter', name: 'Easter Saturday', offset: -1 },
+          { type: 'easter', name: 'Easter Sunday', offset: 0 },
+          { type: 'nth-weekday', name: "King's Birthday", month: 6, weekday: MON, n: 2 },
+          {
+            type: 'table',
+            name: 'Friday before the AFL Grand Final',
+            dates: { 2025: ['2025-09-26'], 2026: ['2026-09-25'], 2027: ['2027-09-24'] },
+          },
+          { type: 'nth-weekday', name: 'Melbourne Cup Day', month: 11, weekday: TUE, n: 1 },
+        ],
+      },
+      WA: {
+        name: 'Western Australia',
+        rules: [
+          { type: 'nth-weekday', name: 'Labour Day', month: 3, weekday: MON, n: 1 },
+          { type: 'easter', name: 'Easter Sunday', offset: 0 },
+          { type: 'nth-weekday', name: 'Western Australia Day', month: 6, weekday: MON, n: 1 },
+          { type: 'nth-weekday', name: "King's Birthday", month: 9, weekday: MON, n: -1 },
+        ],
+      },
+    },
+  },
+
+  MY: {
+    // Federal holidays observed nationwide; Sunday holidays move to Monday
+    substitutePolicy: 'sunday-to-monday',
+    rules: [
+      { type: 'fixed', name: 'Labour Day', localName: 'Hari Pekerja', month: 5, day: 1, substitute: true },
+      { type: 'nth-weekday', name: "King's Birthday", localName: 'Hari Keputeraan Yang di-Pertuan Agong', month: 6, weekday: MON, n: 1 },
+      { type: 'fixed', name: 'National Day', localName: 'Hari Kebangsaan', month: 8, day: 31, substitute: true },
+      { type: 'fixed', name: 'Malaysia Day', localName: 'Hari Malaysia', month: 9, day: 16, substitute: true },
+      { type: 'fixed', name: 'Christmas Day', localName: 'Hari Krismas', month: 12, day: 25, substitute: true },
+      {
+        type: 'table',
+        name: 'Chinese New Year', localName: 'Tahun Baru Cina',
+        substitute: true,
+        dates: {
+          2023: ['2023-01-22', '2023-01-23'],
+          2024: ['2024-02-10', '2024-02-11'],
+          2025: ['2025-01-29', '2025-01-30'],
+          2026: ['2026-02-17', '2026-02-18'],
+          2027: ['2027-02-06', '2027-02-07'],
+        },
+      },
+      {
+        type: 'table',
+        name: 'Eid al-Fitr', localName: 'Hari Raya Aidilfitri',
+        substitute: true,
+        dates: {
+          2023: ['2023-04-22', '2023-04-23'],
+          2024: ['2024-04-10', '2024-04-11'],
+          2025: ['2025-03-31', '2025-04-01'],
+          2026: ['2026-03-21', '2026-03-22'],
+          2027: ['2027-03-10', '2027-03-11'],
+        },
+      },
+      {
+        type: 'table',
+        name: 'Wesak Day', localName: 'Hari Wesak',
+        substitute: true,
+        dates: {
+          2023: ['2023-05-04'], 2024: ['2024-05-22'], 2025: ['2025-05-12'],
+          2026: ['2026-05-31'], 2027: ['2027-05-20'],
+        },
+      },
+      {
+        type: 'table',
+        name: 'Eid al-Adha', localName: 'Hari Raya Haji',
+        substitute: true,
+        dates: {
+          2023: ['2023-06-29'], 2024: ['2024-06-17'], 2025: ['2025-06-07'],
+          2026: ['2026-05-27'], 2027: ['2027-05-17'],
+        },
+      },
+      {
+        type: 'table',
+        name: 'Islamic New Year', localName: 'Awal Muharram',
+        substitute: true,
+        dates: {
+          2023: ['2023-07-19'], 2024: ['2024-07-07'], 2025: ['2025-06-27'],
+          2026: ['2026-06-17'], 2027: ['2027-06-06'],
+        },
+      },
+      {
+        type: 'table',
+        name: "Prophet Muhammad's Birthday", localName: 'Hari Keputeraan Nabi Muhammad S.A.W.',
+        substitute: true,
+        dates: {
+          2023: ['2023-09-28'], 2024: ['2024-09-16'], 2025: ['2025-09-05'],
+          2026: ['2026-08-25'], 2027: ['2027-08-15'],
+        },
+      },
+      {
+        type: 'table',
+        name: 'Deepavali', localName: 'Hari Deepavali',
+        substitute: true,
+        dates: {
+          2023: ['2023-11-12'], 2024: ['2024-10-31'], 2025: ['2025-10-20'],
+          2026: ['2026-11-08'], 2027: ['2027-10-28'],
+        },
+      },
+    ],
+    oneOff: {
+      2023: [{ date: '2023-04-21', name: 'Hari Raya Aidilfitri (additional holiday)' }],
+    },
+    regions: {
+      // States with a Friday–Saturday weekend (see WORK_WEEK_DEFAULTS); state holidays not yet modelled
+      KDH: { name: 'Kedah', rules: [] },
+      KTN: { name: 'Kelantan', rules: [] },
+      TRG: { name: 'Terengganu', rules: [] },
+    },
+  },
+
+  LK: {
+    substitutePolicy: 'none',
+    rules: [
+      {
+        type: 'full-moon',
+        name: 'Full Moon Poya Day',
+        published: {
+          2023: [
+            '2023-01-06', '2023-02-05', '2023-03-06', '2023-04-05', '2023-05-05', '2023-06-03', '2023-07-03',
+            '2023-08-01', '2023-08-30', '2023-09-29', '2023-10-28', '2023-11-26', '2023-12-26',
+          ],
+          2024: [
+            '2024-01-25', '2024-02-23', '2024-03-24', '2024-04-23', '2024-05-23', '2024-06-21',
+            '2024-07-20', '2024-08-19', '2024-09-17', '2024-10-17', '2024-11-15', '2024-12-14',
+          ],
+          2025: [
+            '2025-01-13', '2025-02-12', '2025-03-13', '2025-04-12', '2025-05-12', '2025-06-10',
+            '2025-07-10', '2025-08-08', '2025-09-07', '2025-10-06', '2025-11-05', '2025-12-04',
+          ],
+        },
+      },
+      { type: 'fixed', name: 'Tamil Thai Pongal Day', month: 1, day: 14 },
+      { type: 'fixed', name: 'National Day', month: 2, day: 4 },
+      { type: 'easter', name: 'Good Friday', offset: -2 },
+      { type: 'fixed', name: 'Day prior to Sinhala and Tamil New Year Day', month: 4, day: 13 },
+      { type: 'fixed', name: 'Sinhala and Tamil New Year Day', month: 4, day: 14 },
+      { type: 'fixed', name: 'May Day', month: 5, day: 1 },
+      { type: 'fixed', name: 'Christmas Day', month: 12, day: 25 },
+      {
+        type: 'table',
+        name: 'Mahasivarathri Day',
+        dates: {
+          2023: ['2023-02-18'], 2024: ['2024-03-08'], 2025: ['2025-02-26'],
+          2026: ['2026-02-15'], 2027: ['2027-03-06'],
+        },
+      },
+      {
+        type: 'table',
+        name: 'Id-Ul-Fitr (Ramazan Festival Day)',
+        dates: {
+          2023: ['2023-04-22'], 2024: ['2024-04-11'], 2025: ['2025-03-31'],
+          2026: ['2026-03-21'], 2027: ['2027-03-10'],
+        },
+      },
+      {
+        type: 'table',
+        name: 'Id-Ul-Alha (Hadji Festival Day)',
+        dates: {
+          2023: ['2023-06-29'], 2024: ['2024-06-17'], 2025: ['2025-06-07'],
+          2026: ['2026-05-28'], 2027: ['2027-05-17'],
+        },
+      },
+      {
+        type: 'table',
+        name: 'Milad-Un-Nabi (Holy Prophet\'s Birthday)',
+        dates: {
+          2023: ['2023-09-28'], 2024: ['2024-09-16'], 2025: ['2025-09-05'],
+          2026: ['2026-08-26'], 2027: ['2027-08-15'],
+        },
+      },
+      {
+        type: 'table',
+        name: 'Deepavali Festival Day',
+        dates: {
+          2023: ['2023-11-12'], 2024: ['2024-10-31'], 2025: ['2025-10-20'],
+          2026: ['2026-11-08'], 2027: ['2027-10-28'],
+        },
+      },
+    ],
+  },
+
+  TH: {
+    substitutePolicy: 'next-weekday',
+    rules: [
+      { type: 'fixed', name: "New Year's Day", month: 1, day: 1, substitute: true },
+      { type: 'fixed', name: 'Chakri Memorial Day', month: 4, day: 6, substitute: true },
+      { type: 'fixed', name: 'Songkran Festival', month: 4, day: 13, substitute: true },
+      { type: 'fixed', name: 'Songkran Festival', month: 4, day: 14, substitute: true },
+      { type: 'fixed', name: 'Songkran Festival', month: 4, day: 15, substitute: true },
+      { type: 'fixed', name: 'Labour Day', month: 5, day: 1, substitute: true },
+      { type: 'fixed', name: 'Coronation Day', month: 5, day: 4, substitute: true, fromYear: 2020 },
+      { type: 'fixed', name: "Queen Suthida's Birthday", month: 6, day: 3, substitute: true, fromYear: 2019 },
+      { type: 'fixed', name: "King Vajiralongkorn's Birthday", month: 7, day: 28, substitute: true, fromYear: 2017 },
+      { type: 'fixed', name: "Queen Mother's Birthday", month: 8, day: 12, substitute: true },
+      { type: 'fixed', name: 'King Bhumibol Memorial Day', month: 10, day: 13, substitute: true, fromYear: 2017 },
+      { type: 'fixed', name: 'Chulalongkorn Day', month: 10, day: 23, substitute: true },
+      { type: 'fixed', name: "King Bhumibol's Birthday", month: 12, day: 5, substitute: true },
+      { type: 'fixed', name: 'Constitution Day', month: 12, day: 10, substitute: true },
+      { type: 'fixed', name: "New Year's Eve", month: 12, day: 31, substitute: true },
+      {
+        type: 'table',
+        name: 'Makha Bucha',
+        substitute: true,
+        dates: {
+          2023: ['2023-03-06'], 2024: ['2024-02-24'], 2025: ['2025-02-12'],
+          2026: ['2026-03-03'], 2027: ['2027-02-20'],
+        },
+      },
+      {
+        type: 'table',
+        name: 'Visakha Bucha',
+        substitute: true,
+        dates: {
+          2023: ['2023-06-03'], 2024: ['2024-05-22'], 2025: ['2025-05-11'],
+          2026: ['2026-05-31'], 2027: ['2027-05-20'],
+        },
+      },
+      {
+        type: 'table',
+        name: 'Asahna Bucha',
+        substitute: true,
+        dates: {
+          2023: ['2023-08-01'], 2024: ['2024-07-20'], 2025: ['2025-07-10'],
+          2026: ['2026-07-29'], 2027: ['2027-07-18'],
+        },
+      },
+      {
+        type: 'table',
+        name: 'Khao Phansa',
+        substitute: true,
+        dates: {
+          2023: ['2023-08-02'], 2024: ['2024-07-21'], 2025: ['2025-07-11'],
+          2026: ['2026-07-30'], 2027: ['2027-07-19'],
+        },
+      },
+    ],
+  },
+
+  VN: {
+    substitutePolicy: 'next-weekday',
+    rules: [
+      { type: 'fixed', name: "New Year's Day", localName: 'Tết Dương lịch', month: 1, day: 1, substitute: true },
+      { type: 'fixed', name: 'Reunification Day', localName: 'Ngày Giải phóng miền Nam', month: 4, day: 30, substitute: true },
+      { type: 'fixed', name: 'Labour Day', localName: 'Ngày Quốc tế Lao động', month: 5, day: 1, substitute: true },
+      { type: 'fixed', name: 'National Day', localName: 'Quốc khánh', month: 9, day: 2, substitute: true },
+      {
+        type: 'table',
+        name: 'Lunar New Year', localName: 'Tết Nguyên Đán',
+        dates: {
+          2023: ['2023-01-20', '2023-01-23', '2023-01-24', '2023-01-25', '2023-01-26'],
+          2024: ['2024-02-08', '2024-02-09', '2024-02-12', '2024-02-13', '2024-02-14'],
+          2025: ['2025-01-27', '2025-01-28', '2025-01-29', '2025-01-30', '2025-01-31'],
+          2026: ['2026-02-16', '2026-02-17', '2026-02-18', '2026-02-19', '2026-02-20'],
+          2027: ['2027-02-05', '2027-02-08', '2027-02-09', '2027-02-10', '2027-02-11'],
+        },
+      },
+      {
+        type: 'table',
+        name: "Hung Kings' Commemoration Day", localName: 'Giỗ Tổ Hùng Vương',
+        substitute: true,
+        dates: {
+          2023: ['2023-04-29'], 2024: ['2024-04-18'], 2025: ['2025-04-07'],
+          2026: ['2026-04-26'], 2027: ['2027-04-16'],
+        },
+      },
+      {
+        type: 'table',
+        name: 'National Day (adjacent day)', localName: 'Quốc khánh (ngày liền kề)',
+        dates: {
+          2023: ['2023-09-01'], 2024: ['2024-09-03'], 2025: ['2025-09-01'],
+          2026: ['2026-09-01'], 2027: ['2027-09-03'],
+        },
+      },
+    ],
+  },
+};
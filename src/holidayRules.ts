@@ -0,0 +1,441 @@
+import { addDays, subDays, format, getDay, lastDayOfMonth } from 'date-fns';
+
+// Rule-based public holiday generation. Every date is built as a local
+// calendar date (midnight) so it lines up with the yyyy-MM-dd keys used by
+// bankHolidays.ts.
+
+export type SubstitutePolicy =
+  | 'none'            // Holidays on weekends are simply lost
+  | 'next-weekday'    // Saturday/Sunday → next free weekday (UK, IE, NZ, AU, TH, VN)
+  | 'sunday-to-monday' // Sunday only → next free weekday (MY)
+  | 'nearest-weekday'; // Saturday → Friday, Sunday → Monday (US federal "observed")
+
+export type HolidayType =
+  | 'public'      // Statutory day off
+  | 'bank'        // Bank holiday (UK): a day off by custom and for banks
+  | 'optional'    // Day off at the employer's discretion
+  | 'observance'; // Marked in the calendar but not a day off
+
+interface RuleBase {
+  /** English name */
+  name: string;
+  /** Name in the local language, if different */
+  localName?: string;
+  /** Defaults to the country's holidayType */
+  holidayType?: HolidayType;
+  /** Move to a weekday under the country's substitute policy */
+  substitute?: boolean;
+  fromYear?: number;
+  toYear?: number;
+  skipYears?: number[];
+}
+
+export type HolidayRule =
+  | (RuleBase & { type: 'fixed'; month: number; day: number })
+  /** nth weekday of a month; n = -1 means the last one. weekday: 0 = Sunday. offset shifts the result in days */
+  | (RuleBase & { type: 'nth-weekday'; month: number; weekday: number; n: number; offset?: number })
+  /** First given weekday on or after a fixed date */
+  | (RuleBase & { type: 'weekday-on-or-after'; month: number; day: number; weekday: number })
+  | (RuleBase & { type: 'easter'; offset: number; calendar?: 'western' | 'orthodox' })
+  /** Sri Lankan Poya days: the published dates where bundled, otherwise estimated from the full moon */
+  | (RuleBase & { type: 'full-moon'; published?: Record<number, string[]> })
+  /** Dates that follow a lunar or announced calendar, bundled per year */
+  | (RuleBase & { type: 'table'; dates: Record<number, string[]> });
+
+export interface RegionalHolidayDefinition {
+  name: string;
+  /** Holidays observed in the region on top of the national ones */
+  rules: HolidayRule[];
+  /** Names of national holidays the region does not observe */
+  exclude?: string[];
+}
+
+export interface CountryHolidayDefinition {
+  substitutePolicy: SubstitutePolicy;
+  /** Type of holidays whose rule does not set one (default 'public') */
+  holidayType?: HolidayType;
+  rules: HolidayRule[];
+  /** Subdivisions keyed by ISO 3166-2 suffix, e.g. 'SCT' for GB-SCT */
+  regions?: Record<string, RegionalHolidayDefinition>;
+  /** One-off holidays (jubilees, state funerals) keyed by year, as yyyy-MM-dd */
+  oneOff?: Record<number, Array<{ date: string; name: string }>>;
+}
+
+export interface GeneratedHoliday {
+  date: string;
+  name: string;
+  localName: string;
+  type: HolidayType;
+  substitute: boolean;
+  /** Name of the holiday a substitute day stands in for */
+  substituteFor: string | null;
+  /** Comes from the region's own rules rather than the national ones */
+  regional: boolean;
+}
+
+/** A holiday whose dates for a year are not bundled, or only estimated */
+export interface MissingHolidayData {
+  name: string;
+  /** Years with bundled (or published) dates */
+  coveredYears: number[];
+  estimated: boolean;
+}
+
+type RawHoliday = Omit<GeneratedHoliday, 'date' | 'substituteFor'> & { date: Date };
+
+export function toDateKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+function parseDateKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Western (Gregorian) Easter Sunday using the anonymous Gregorian computus
+ */
+export function westernEaster(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Orthodox Easter Sunday (Meeus' Julian computus, shifted onto the Gregorian calendar)
+ */
+export function orthodoxEaster(year: number): Date {
+  const a = year % 4;
+  const b = year % 7;
+  const c = year % 19;
+  const d = (19 * c + 15) % 30;
+  const e = (2 * a + 4 * b - d + 34) % 7;
+  const month = Math.floor((d + e + 114) / 31);
+  const day = ((d + e + 114) % 31) + 1;
+  // Julian → Gregorian difference is 13 days from 1900 to 2099
+  const julianToGregorian = Math.floor(year / 100) - Math.floor(year / 400) - 2;
+  return addDays(new Date(year, month - 1, day), julianToGregorian);
+}
+
+function nthWeekdayOfMonth(year: number, month: number, weekday: number, n: number): Date {
+  if (n === -1) {
+    const last = lastDayOfMonth(new Date(year, month - 1, 1));
+    return subDays(last, (getDay(last) - weekday + 7) % 7);
+  }
+  const first = new Date(year, month - 1, 1);
+  const offset = (weekday - getDay(first) + 7) % 7;
+  return addDays(first, offset + (n - 1) * 7);
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// The first seven periodic terms of Meeus' correction differ between new and
+// full moon; the rest are shared
+const PHASE_TERMS = {
+  new: [-0.40720, 0.17241, 0.01608, 0.01039, 0.00739, -0.00514, 0.00208],
+  full: [-0.40614, 0.17302, 0.01614, 0.01043, 0.00734, -0.00515, 0.00209],
+};
+
+// Instant of the new moon (whole k) or full moon (k + 0.5) of lunation k,
+// counted from the new moon of 6 January 2000 (Meeus, Astronomical Algorithms ch. 49)
+function lunarPhase(k: number): Date {
+  const [c1, c2, c3, c4, c5, c6, c7] = PHASE_TERMS[Number.isInteger(k) ? 'new' : 'full'];
+  const T = k / 1236.85;
+  const E = 1 - 0.002516 * T - 0.0000074 * T * T;
+  const M = toRadians(2.5534 + 29.1053567 * k - 0.0000014 * T * T);
+  const Mp = toRadians(201.5643 + 385.81693528 * k + 0.0107582 * T * T);
+  const F = toRadians(160.7108 + 390.67050284 * k - 0.0016118 * T * T);
+  const omega = toRadians(124.7746 - 1.56375588 * k + 0.0020672 * T * T);
+
+  let jde = 2451550.09766 + 29.530588861 * k + 0.00015437 * T * T;
+  jde +=
+    c1 * Math.sin(Mp) +
+    c2 * E * Math.sin(M) +
+    c3 * Math.sin(2 * Mp) +
+    c4 * Math.sin(2 * F) +
+    c5 * E * Math.sin(Mp - M) +
+    c6 * E * Math.sin(Mp + M) +
+    c7 * E * E * Math.sin(2 * M) -
+    0.00111 * Math.sin(Mp - 2 * F) -
+    0.00057 * Math.sin(Mp + 2 * F) +
+    0.00056 * E * Math.sin(2 * Mp + M) -
+    0.00042 * Math.sin(3 * Mp) +
+    0.00042 * E * Math.sin(M + 2 * F) +
+    0.00038 * E * Math.sin(M - 2 * F) -
+    0.00024 * E * Math.sin(2 * Mp - M) -
+    0.00017 * Math.sin(omega) -
+    0.00007 * Math.sin(Mp + 2 * M) +
+    0.00004 * Math.sin(2 * Mp - 2 * F) +
+    0.00004 * Math.sin(3 * M) +
+    0.00003 * Math.sin(Mp + M - 2 * F) +
+    0.00003 * Math.sin(2 * Mp + 2 * F) -
+    0.00003 * Math.sin(Mp + M + 2 * F) +
+    0.00003 * Math.sin(Mp - M + 2 * F) -
+    0.00002 * Math.sin(Mp - M - 2 * F) -
+    0.00002 * Math.sin(3 * Mp + M) +
+    0.00002 * Math.sin(4 * Mp);
+
+  return new Date((jde - 2440587.5) * 86400000);
+}
+
+// First lunation that can reach into a year, with a month to spare
+function firstLunation(year: number): number {
+  return Math.floor((year - 2000) * 12.3685) - 1;
+}
+
+/**
+ * Instants of full moons in a (UTC) year (Meeus, Astronomical Algorithms ch. 49).
+ * Accurate to a few minutes, which is enough to pick the calendar day.
+ */
+export function fullMoonsInYear(year: number): Date[] {
+  const results: Date[] = [];
+
+  for (let k = firstLunation(year); k < firstLunation(year) + 16; k++) {
+    const instant = lunarPhase(k + 0.5);
+    if (instant.getUTCFullYear() === year) {
+      results.push(instant);
+    }
+  }
+
+  return results;
+}
+
+// Sidereal zodiac sign (0 = Mesha/Aries ... 11 = Meena/Pisces) the sun is in:
+// its apparent longitude (Meeus ch. 25, low accuracy) less the Lahiri ayanamsa
+function sunSign(instant: Date): number {
+  const T = ((instant.getTime() / 86400000 + 2440587.5) - 2451545) / 36525;
+  const M = toRadians(357.52911 + 35999.05029 * T);
+  const trueLongitude = 280.46646 + 36000.76983 * T +
+    (1.914602 - 0.004817 * T) * Math.sin(M) + 0.019993 * Math.sin(2 * M) + 0.000289 * Math.sin(3 * M);
+  const apparent = trueLongitude - 0.00569 - 0.00478 * Math.sin(toRadians(125.04 - 1934.136 * T));
+  const sidereal = apparent - (23.853 + 1.397 * T);
+  return Math.floor((((sidereal % 360) + 360) % 360) / 30);
+}
+
+// Sri Lankan lunar months, starting with the one in which the sun enters Makara (Capricorn)
+const POYA_NAMES = [
+  'Duruthu', 'Navam', 'Medin', 'Bak', 'Vesak', 'Poson',
+  'Esala', 'Nikini', 'Binara', 'Vap', 'Il', 'Unduvap',
+];
+
+// A lunar month (new moon to new moon) is named after the sign the sun enters
+// during it. In an adhi (leap) month the sun enters no sign, and the month
+// repeats the name of the one before it, e.g. Adhi Esala in 2023
+function lunarMonth(k: number): { name: string; adhi: boolean } {
+  const start = sunSign(lunarPhase(k));
+  const end = sunSign(lunarPhase(k + 1));
+  return { name: POYA_NAMES[(end + 3) % 12], adhi: start === end };
+}
+
+// The Sri Lankan calendar often puts Poya on the day before the full moon.
+// Without published dates, Poya is estimated as the Sri Lanka (UTC+05:30)
+// date 15 hours before the full moon: this matches 34 of the 37 published
+// Poya days of 2023-2025, and the others are a day later.
+const POYA_LEAD_HOURS = 15;
+
+function fullMoonHolidays(year: number, rule: Extract<HolidayRule, { type: 'full-moon' }>): Array<{ date: Date; name: string }> {
+  const holidays: Array<{ date: Date; name: string }> = [];
+  const published = rule.published?.[year]?.map(parseDateKey);
+
+  for (let k = firstLunation(year); k < firstLunation(year) + 16; k++) {
+    const local = new Date(lunarPhase(k + 0.5).getTime() + (5.5 - POYA_LEAD_HOURS) * 60 * 60 * 1000);
+    const estimate = new Date(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate());
+    // A published Poya day is within a day or two of the full moon
+    const date = published
+      ? published.find(day => Math.abs(day.getTime() - estimate.getTime()) <= 2 * 86400000)
+      : estimate;
+    // By the Sri Lanka date: a full moon late on 31 December UTC can be a January Poya
+    if (!date || date.getFullYear() !== year) continue;
+
+    const { name, adhi } = lunarMonth(k);
+    holidays.push({ date, name: `${adhi ? 'Adhi ' : ''}${name} ${rule.name}` });
+    if (name === 'Vesak' && !adhi) {
+      holidays.push({ date: addDays(date, 1), name: `Day following Vesak ${rule.name}` });
+    }
+  }
+
+  return holidays;
+}
+
+function applies(rule: HolidayRule, year: number): boolean {
+  if (rule.fromYear !== undefined && year < rule.fromYear) return false;
+  if (rule.toYear !== undefined && year > rule.toYear) return false;
+  return !rule.skipYears?.includes(year);
+}
+
+function datesForRule(rule: HolidayRule, year: number): Array<{ date: Date; name: string }> {
+  if (!applies(rule, year)) {
+    return [];
+  }
+
+  switch (rule.type) {
+    case 'fixed':
+      return [{ date: new Date(year, rule.month - 1, rule.day), name: rule.name }];
+    case 'nth-weekday': {
+      const date = nthWeekdayOfMonth(year, rule.month, rule.weekday, rule.n);
+      return [{ date: addDays(date, rule.offset || 0), name: rule.name }];
+    }
+    case 'weekday-on-or-after': {
+      const date = new Date(year, rule.month - 1, rule.day);
+      return [{ date: addDays(date, (rule.weekday - getDay(date) + 7) % 7), name: rule.name }];
+    }
+    case 'easter': {
+      const easter = rule.calendar === 'orthodox' ? orthodoxEaster(year) : westernEaster(year);
+      return [{ date: addDays(easter, rule.offset), name: rule.name }];
+    }
+    case 'full-moon':
+      return fullMoonHolidays(year, rule);
+    case 'table':
+      return (rule.dates[year] || []).map(key => ({ date: parseDateKey(key), name: rule.name }));
+  }
+}
+
+/**
+ * yyyy-MM-dd dates a single rule produces in a year (no substitute days)
+ */
+export function ruleDates(rule: HolidayRule, year: number): string[] {
+  return datesForRule(rule, year).map(entry => toDateKey(entry.date));
+}
+
+function isWeekendDay(date: Date): boolean {
+  const day = getDay(date);
+  return day === 0 || day === 6;
+}
+
+function substituteDate(date: Date, policy: SubstitutePolicy, taken: Set<string>): Date | null {
+  const day = getDay(date);
+
+  if (policy === 'none' || !isWeekendDay(date)) {
+    return null;
+  }
+  if (policy === 'sunday-to-monday' && day !== 0) {
+    return null;
+  }
+  if (policy === 'nearest-weekday') {
+    return day === 6 ? subDays(date, 1) : addDays(date, 1);
+  }
+
+  let candidate = addDays(date, 1);
+  while (isWeekendDay(candidate) || taken.has(toDateKey(candidate))) {
+    candidate = addDays(candidate, 1);
+  }
+  return candidate;
+}
+
+function rulesFor(definition: CountryHolidayDefinition, region?: string): HolidayRule[] {
+  const regional = region ? definition.regions?.[region] : undefined;
+  const excluded = new Set(regional?.exclude || []);
+  return [
+    ...definition.rules.filter(rule => !excluded.has(rule.name)),
+    ...(regional?.rules || []),
+  ];
+}
+
+/**
+ * Holidays the rules cannot produce exactly for a year: bundled tables
+ * (lunar and announced dates) that have no entry for it, and full-moon
+ * holidays without published dates, which are only estimated
+ */
+export function missingHolidayData(
+  definition: CountryHolidayDefinition,
+  year: number,
+  region?: string
+): MissingHolidayData[] {
+  const bundledYears = (dates: Record<number, string[]>) => Object.keys(dates).map(Number).sort((a, b) => a - b);
+
+  return rulesFor(definition, region)
+    .filter(rule => applies(rule, year))
+    .flatMap((rule): MissingHolidayData[] => {
+      if (rule.type === 'table' && !rule.dates[year]) {
+        return [{ name: rule.name, coveredYears: bundledYears(rule.dates), estimated: false }];
+      }
+      if (rule.type === 'full-moon' && !rule.published?.[year]) {
+        return [{ name: rule.name, coveredYears: bundledYears(rule.published || {}), estimated: true }];
+      }
+      return [];
+    });
+}
+
+/**
+ * Generate the public holidays for one country (and optional region) and
+ * year, including substitute days. Neighbouring years are generated too so
+ * that, for example, a US New Year's Day on a Saturday is observed on
+ * 31 December.
+ */
+export function generateHolidays(
+  definition: CountryHolidayDefinition,
+  year: number,
+  region?: string
+): GeneratedHoliday[] {
+  const rules = rulesFor(definition, region);
+  const regionalRules = new Set(region ? definition.regions?.[region]?.rules : []);
+  const defaultType = definition.holidayType || 'public';
+  const raw: RawHoliday[] = [];
+
+  for (const y of [year - 1, year, year + 1]) {
+    for (const rule of rules) {
+      for (const entry of datesForRule(rule, y)) {
+        raw.push({
+          ...entry,
+          localName: rule.localName || entry.name,
+          type: rule.holidayType || defaultType,
+          substitute: rule.substitute === true,
+          regional: regionalRules.has(rule),
+        });
+      }
+    }
+    for (const entry of definition.oneOff?.[y] || []) {
+      raw.push({
+        date: parseDateKey(entry.date),
+        name: entry.name,
+        localName: entry.name,
+        type: defaultType,
+        substitute: false,
+        regional: false,
+      });
+    }
+  }
+
+  raw.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const taken = new Set(raw.map(entry => toDateKey(entry.date)));
+  const holidays: GeneratedHoliday[] = [];
+
+  for (const entry of raw) {
+    holidays.push({ ...entry, date: toDateKey(entry.date), substitute: false, substituteFor: null });
+
+    // Observances are not days off, so nothing is owed when they fall on a weekend
+    if (entry.substitute && entry.type !== 'observance') {
+      const moved = substituteDate(entry.date, definition.substitutePolicy, taken);
+      if (moved) {
+        const key = toDateKey(moved);
+        taken.add(key);
+        holidays.push({
+          ...entry,
+          date: key,
+          name: `${entry.name} (substitute day)`,
+          localName: entry.localName === entry.name ? `${entry.name} (substitute day)` : entry.localName,
+          substitute: true,
+          substituteFor: entry.name,
+        });
+      }
+    }
+  }
+
+  const prefix = `${year}-`;
+  return holidays
+    .filter(holiday => holiday.date.startsWith(prefix))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -8,42 +8,187 @@ import {
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 
+import { addDays, addMonths, addYears, differenceInCalendarDays } from 'date-fns';
+
 import {
   calculateWorkingDays,
   getNextWorkingDay,
   getWorkingDaysBetween,
-  calculateSprintDates,
-  getCurrentSprintInfo,
-  formatDateUK,
+  formatDateLong,
   formatDateISO,
-  formatDateTimeUK,
+  formatDateTime,
   parseDate,
-  getTodayUK,
+  getToday,
+  resolveTimezone,
+  getCommonWorkingDays,
+  getCalendarExceptions,
+  getHolidayDataWarnings,
+  explainDay,
+  adjustToWorkingDay,
+  ROLL_POLICIES,
+  CalendarSelection,
+  RollPolicy,
+  WorkingDayOptions,
 } from './dateCalculations.js';
 
-import { isUKBankHoliday, getUpcomingBankHolidays } from './bankHolidays.js';
+import {
+  isBankHoliday,
+  getHoliday,
+  getUpcomingBankHolidays,
+  getHolidayCacheStatus,
+  refreshHolidayCache,
+  resolveCalendar,
+  CalendarOptions,
+  Holiday,
+} from './bankHolidays.js';
+
+import { config } from './config.js';
+
+import { resolveWorkWeek, formatWorkWeek } from './workWeek.js';
+
+import {
+  addWorkingHours,
+  getWorkingHoursBetween,
+  resolveWorkingHours,
+  formatWorkingHours,
+  parseTimestamp,
+  formatTimestamp,
+} from './workingHours.js';
+
+import { convertTime, findOverlapWindows, parseZone, Participant } from './timeZones.js';
+
+import { generateSchedule, MAX_OCCURRENCES, ScheduleAdjustment } from './schedule.js';
+
+import { calculateSprintDates, getSprintProgress, locateSprint, parseShutdown, Sprint, SprintCadence } from './sprints.js';
+
+import { WEEKDAYS } from './dateParser.js';
+
+import { MAX_PHASES, planBackwards, PhaseInput } from './planning.js';
+
+import { MAX_TIMELINE_TASKS, Person, scheduleTimeline, TimelineTask } from './timeline.js';
+
+import { formatForTracker, listTrackerTargets } from './trackerFormats.js';
 
 import {
   getAsanaDueDate,
   formatAsanaDate,
+  formatAsanaDay,
   formatAsanaDisplayDate,
   parseAsanaDateRequest,
+  buildAsanaDateFields,
+  AsanaTiming,
 } from './asanaHelpers.js';
 
+// Optional per-call calendar override, shared by every tool that depends on holidays
+const calendarProperties = {
+  country: {
+    type: 'string',
+    description: 'Country code whose holidays and timezone to use, e.g. "GB", "LK", "RO". Default: BANK_HOLIDAY_COUNTRY setting',
+  },
+  region: {
+    type: 'string',
+    description: 'Holiday region, e.g. "GB-SCT" (Scotland), "GB-NIR" (Northern Ireland), "US-CA", "AU-NSW". Default: BANK_HOLIDAY_REGION setting for your own country',
+  },
+  timezone: {
+    type: 'string',
+    description: 'IANA timezone for "today" and formatting, e.g. "Asia/Colombo". Default: the country\'s office timezone',
+  },
+  work_week: {
+    type: 'string',
+    description: 'Working days of the week, e.g. "mon-fri", "sun-thu", "mon-sat" or "mon,tue,wed,thu". Default: WORK_WEEK setting or the country\'s usual week',
+  },
+};
+
+// Several calendars at once, e.g. for "working days when both offices are open"
+const multiCalendarProperties = {
+  countries: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Country codes to combine, optionally with a region, e.g. ["GB", "RO"] or ["GB-SCT", "US-NY"]',
+  },
+  match: {
+    type: 'string',
+    enum: ['all', 'any'],
+    description: 'Count a day when it is a working day in all countries or in any of them (default: all)',
+  },
+};
+
+// Optional per-call business hours, shared by the working-hours tools
+const workingHoursProperties = {
+  working_hours: {
+    type: 'string',
+    description: 'Business hours in the calendar\'s timezone, e.g. "09:00-17:30". Default: WORKING_HOURS setting',
+  },
+  lunch_break: {
+    type: 'string',
+    description: 'Unpaid break inside business hours, e.g. "12:30-13:30". Default: LUNCH_BREAK setting',
+  },
+};
+
+// Optional per-call Asana due hour, shared by the Asana tools
+const asanaDueHourProperty = {
+  type: 'number',
+  description: 'Hour (0-23) tasks are due when no time is given. Takes priority over the policy; default: the policy\'s weekday_due_hours for that day, then its due_hour, then ASANA_DUE_HOUR setting',
+};
+
+// Optional tracker output format, shared by the due-date tools
+const targetProperty = {
+  type: 'string',
+  enum: listTrackerTargets(),
+  description: 'Tracker to format the due date for: "asana" (default, due_at), "jira" (fields.duedate), "linear" (dueDate), "github" (milestone due_on), "trello" (due) or "clickup" (due_date in Unix milliseconds)',
+};
+
+// Optional named due-date policy, shared by the Asana tools
+const duePolicyProperty = {
+  type: 'string',
+  description: 'Due-date policy from DUE_POLICY_FILE (lead time, cut-off, due hour, disallowed weekdays, roll), or the built-in "asana" (next working day). Default: the file\'s default policy, or "asana"',
+};
+
+// Sprint cadence, shared by the sprint tools and "end of sprint"; defaults come from the SPRINT_* settings
+const sprintProperties = {
+  first_sprint_start: {
+    type: 'string',
+    description: 'Date when sprint 1 started in ISO format (YYYY-MM-DD). Default: FIRST_SPRINT_START setting',
+  },
+  sprint_length_weeks: {
+    type: 'number',
+    description: 'Length of sprint in weeks. Default: SPRINT_LENGTH_WEEKS setting',
+  },
+  start_day: {
+    type: 'string',
+    description: 'Weekday sprints start on, e.g. "wednesday" (default: SPRINT_START_DAY setting, or the weekday of first_sprint_start)',
+  },
+  shutdowns: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Shutdowns that pause the cadence, e.g. ["12-21/01-02"] every year or ["2026-12-21/2027-01-01"]. A sprint that would overlap one is skipped and the next starts on the first start day after it. Default: SPRINT_SHUTDOWNS setting',
+  },
+};
+
+// Optional roll policy for non-working start and end dates, shared by the working day tools
+const rollProperty = {
+  type: 'string',
+  enum: ROLL_POLICIES,
+  description: 'Move a start or end date that is not a working day first: "following" (next working day), "preceding" (previous one), "modified-following" (next, unless that is in the next month), "modified-preceding", "nearest" or "none" (default)',
+};
+
 // Define tools
 const tools: Tool[] = [
   {
-    name: 'get_today_uk',
-    description: 'Get the current date in UK timezone (Europe/London)',
+    name: 'get_today',
+    description: 'Get the current date in your configured timezone, or in another country\'s timezone',
     inputSchema: {
       type: 'object',
-      properties: {},
+      properties: {
+        country: calendarProperties.country,
+        timezone: calendarProperties.timezone,
+      },
       required: [],
     },
   },
   {
     name: 'calculate_working_days',
-    description: 'Calculate a date by adding or subtracting working days (excludes weekends and UK bank holidays)',
+    description: 'Calculate a date by adding or subtracting working days (excludes weekends and public holidays)',
     inputSchema: {
       type: 'object',
       properties: {
@@ -53,20 +198,27 @@ const tools: Tool[] = [
         },
         num_days: {
           type: 'number',
-          description: 'Number of working days to add or subtract',
+          description: 'Number of working days to add; negative to subtract',
         },
         direction: {
           type: 'string',
           enum: ['forward', 'backward'],
-          description: 'Direction to calculate (default: forward)',
+          description: 'Use "backward" to subtract num_days (default: forward)',
+        },
+        include_start: {
+          type: 'boolean',
+          description: 'Count the start date as day 1 when it is a working day, e.g. a 5-day task starting Monday ends Friday (default: false, like Excel WORKDAY)',
         },
+        roll: rollProperty,
+        ...calendarProperties,
+        ...multiCalendarProperties,
       },
       required: ['start_date', 'num_days'],
     },
   },
   {
     name: 'get_next_working_day',
-    description: 'Get the next working day after a given date (excludes weekends and UK bank holidays)',
+    description: 'Get the next working day after a given date (excludes weekends and public holidays)',
     inputSchema: {
       type: 'object',
       properties: {
@@ -74,13 +226,69 @@ const tools: Tool[] = [
           type: 'string',
           description: 'Date to calculate from in ISO format (YYYY-MM-DD). Use "today" for current date.',
         },
+        ...calendarProperties,
       },
       required: ['from_date'],
     },
   },
+  {
+    name: 'adjust_to_working_day',
+    description: 'Adjust a date (e.g. a payment date) to a working day by a business-day convention: following, modified following, preceding, modified preceding or nearest. Dates that are already working days stay put. Reports whether and why the date moved',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        date: {
+          type: 'string',
+          description: 'Date to adjust in ISO format (YYYY-MM-DD) or "today"',
+        },
+        convention: {
+          ...rollProperty,
+          description: 'Business-day convention: "following" (default), "modified-following", "preceding", "modified-preceding", "nearest" (closer working day, forward on a tie) or "none"',
+        },
+        end_of_month: {
+          type: 'boolean',
+          description: 'When the date is the last day of its month, use the last working day of that month (default: false)',
+        },
+        ...calendarProperties,
+      },
+      required: ['date'],
+    },
+  },
+  {
+    name: 'generate_schedule',
+    description: 'Generate recurring dates from an RFC 5545 RRULE (e.g. "FREQ=MONTHLY;BYMONTHDAY=15") or a keyword rule (e.g. "last working day of each month", "every other Tuesday", "15th of each month"), adjusting each occurrence to a working day. Moved dates are marked with the reason',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        rule: {
+          type: 'string',
+          description: 'RRULE (FREQ, INTERVAL, COUNT, UNTIL, BYDAY, BYMONTHDAY, BYMONTH, BYSETPOS, WKST) or keyword rule: "daily", "weekly", "every Monday and Thursday", "every other Friday", "every 3 weeks on Monday", "monthly on the 15th", "first Monday of every month", "last day of each month", "2nd working day of each quarter", "yearly"',
+        },
+        start_date: {
+          type: 'string',
+          description: 'First date of the schedule in ISO format (YYYY-MM-DD) or "today" (default: today)',
+        },
+        end_date: {
+          type: 'string',
+          description: 'Last date of the schedule in ISO format (default: one year after the start, or up to the count)',
+        },
+        count: {
+          type: 'number',
+          description: `Stop after this many occurrences (maximum ${MAX_OCCURRENCES})`,
+        },
+        adjustment: {
+          type: 'string',
+          enum: [...ROLL_POLICIES, 'skip'],
+          description: 'What to do with occurrences on non-working days: "following" (default), "preceding", "modified-following", "modified-preceding", "nearest", "none" (keep them) or "skip" (leave them out)',
+        },
+        ...calendarProperties,
+      },
+      required: ['rule'],
+    },
+  },
   {
     name: 'get_working_days_between',
-    description: 'Count working days between two dates (excludes weekends and UK bank holidays)',
+    description: 'Count working days between two dates (excludes weekends and public holidays). A start date after the end date gives a negative count',
     inputSchema: {
       type: 'object',
       properties: {
@@ -92,13 +300,209 @@ const tools: Tool[] = [
           type: 'string',
           description: 'End date in ISO format (YYYY-MM-DD)',
         },
+        include_start: {
+          type: 'boolean',
+          description: 'Count the start date (default: true, like Excel NETWORKDAYS)',
+        },
+        include_end: {
+          type: 'boolean',
+          description: 'Count the end date (default: true)',
+        },
+        roll: rollProperty,
+        ...calendarProperties,
       },
       required: ['start_date', 'end_date'],
     },
   },
   {
-    name: 'is_uk_bank_holiday',
-    description: 'Check if a specific date is a UK bank holiday',
+    name: 'plan_backwards',
+    description: 'Work backwards from a fixed delivery date: given phases in order with working-day durations (e.g. refinement 3, dev 15, UAT 5), return when each must start and end. Skips weekends and holidays across the whole chain and flags phases that should already have started',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        end_date: {
+          type: 'string',
+          description: 'Delivery or go-live date in ISO format (YYYY-MM-DD)',
+        },
+        phases: {
+          type: 'array',
+          description: `Phases in delivery order, first to last (maximum ${MAX_PHASES})`,
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', description: 'e.g. "UAT"' },
+              working_days: { type: 'number', description: 'Working days the phase takes' },
+              buffer_days: { type: 'number', description: 'Working days of slack after the phase (default: 0)' },
+            },
+            required: ['name', 'working_days'],
+          },
+        },
+        include_end_date: {
+          type: 'boolean',
+          description: 'The last phase may use the end date itself (default: true). Set false when the end date is go-live and no work happens on it',
+        },
+        ...calendarProperties,
+      },
+      required: ['end_date', 'phases'],
+    },
+  },
+  {
+    name: 'plan_timeline',
+    description: 'Schedule a project forward from a start date: tasks with working-day estimates, dependencies and assignees, each worked on the assignee\'s own country calendar and annual leave. Returns the earliest start and finish of every task, its float, the critical path, and which leave days or local holidays pushed each task',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        start_date: {
+          type: 'string',
+          description: 'Project start in ISO format (YYYY-MM-DD). Use "today" for current date.',
+        },
+        tasks: {
+          type: 'array',
+          description: `Tasks in any order (maximum ${MAX_TIMELINE_TASKS}). A task starts once every task it depends on has finished`,
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', description: 'Unique id, e.g. "api"' },
+              name: { type: 'string', description: 'e.g. "Build the API" (default: the id)' },
+              working_days: { type: 'number', description: 'Working days the task takes' },
+              depends_on: { type: 'array', items: { type: 'string' }, description: 'Ids of tasks that must finish first' },
+              assignee: { type: 'string', description: 'Name of a person in people. Unassigned tasks use the calendar arguments' },
+            },
+            required: ['id', 'working_days'],
+          },
+        },
+        people: {
+          type: 'array',
+          description: 'People assigned to tasks, each with their own calendar and leave',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', description: 'e.g. "Ana"' },
+              ...calendarProperties,
+              leave: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Annual leave: dates or inclusive ranges, e.g. ["2026-11-02", "2026-12-21/2027-01-01"]',
+              },
+            },
+            required: ['name'],
+          },
+        },
+        ...calendarProperties,
+      },
+      required: ['start_date', 'tasks'],
+    },
+  },
+  {
+    name: 'get_common_working_days',
+    description: 'List the days that are working days in all (or any) of several countries, with the holidays that close each office',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        start_date: {
+          type: 'string',
+          description: 'Start date in ISO format (YYYY-MM-DD). Use "today" for current date.',
+        },
+        end_date: {
+          type: 'string',
+          description: 'End date in ISO format (YYYY-MM-DD), inclusive',
+        },
+        ...multiCalendarProperties,
+      },
+      required: ['start_date', 'end_date', 'countries'],
+    },
+  },
+  {
+    name: 'add_working_hours',
+    description: 'Add business hours to a timestamp, skipping nights, weekends, holidays and lunch (e.g. "8 business hours from now" for an SLA)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        start: {
+          type: 'string',
+          description: 'Start timestamp, e.g. "2026-10-19T14:00" (read in the calendar\'s timezone), "2026-10-19T14:00:00+01:00" or "now"',
+        },
+        hours: {
+          type: 'number',
+          description: 'Business hours to add (may be fractional, e.g. 1.5)',
+        },
+        ...workingHoursProperties,
+        ...calendarProperties,
+      },
+      required: ['start', 'hours'],
+    },
+  },
+  {
+    name: 'get_working_hours_between',
+    description: 'Count business hours between two timestamps (excludes nights, weekends, holidays and lunch)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        start: {
+          type: 'string',
+          description: 'Start timestamp, e.g. "2026-10-19T14:00", "2026-10-19T14:00:00+01:00" or "now"',
+        },
+        end: {
+          type: 'string',
+          description: 'End timestamp, same formats as start',
+        },
+        ...workingHoursProperties,
+        ...calendarProperties,
+      },
+      required: ['start', 'end'],
+    },
+  },
+  {
+    name: 'convert_time',
+    description: 'Convert a time from one country or timezone into others (daylight saving aware)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        time: {
+          type: 'string',
+          description: 'Timestamp, e.g. "2026-10-19T14:00" (read in the "from" zone), "2026-10-19T14:00:00+01:00" or "now"',
+        },
+        from: {
+          type: 'string',
+          description: 'Country code (e.g. "NZ", "US-NY") or IANA timezone (e.g. "Pacific/Auckland") of the time. Default: your configured timezone',
+        },
+        to: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Countries or timezones to convert into, e.g. ["GB", "LK", "America/Chicago"]',
+        },
+      },
+      required: ['time', 'to'],
+    },
+  },
+  {
+    name: 'find_overlap_window',
+    description: 'Find when several offices are all within working hours on a date, flagging anyone on a public holiday',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        date: {
+          type: 'string',
+          description: 'Date in ISO format (YYYY-MM-DD), read in the first participant\'s timezone. Use "today" for current date.',
+        },
+        participants: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              ...calendarProperties,
+              ...workingHoursProperties,
+            },
+          },
+          description: 'Offices to include, each with a country and/or timezone and optional working hours, e.g. [{"country": "NZ"}, {"country": "GB", "working_hours": "08:00-16:00"}]',
+        },
+      },
+      required: ['date', 'participants'],
+    },
+  },
+  {
+    name: 'is_bank_holiday',
+    description: 'Check if a specific date is a bank (public) holiday',
     inputSchema: {
       type: 'object',
       properties: {
@@ -106,13 +510,29 @@ const tools: Tool[] = [
           type: 'string',
           description: 'Date to check in ISO format (YYYY-MM-DD)',
         },
+        ...calendarProperties,
+      },
+      required: ['date'],
+    },
+  },
+  {
+    name: 'explain_date',
+    description: 'Explain whether a date is a working day and why: weekend, which public holiday (with its type, local name and substitute-day details), company closure or company working day',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        date: {
+          type: 'string',
+          description: 'Date to explain in ISO format (YYYY-MM-DD) or "today"',
+        },
+        ...calendarProperties,
       },
       required: ['date'],
     },
   },
   {
     name: 'get_upcoming_bank_holidays',
-    description: 'Get list of upcoming UK bank holidays',
+    description: 'Get list of upcoming bank holidays',
     inputSchema: {
       type: 'object',
       properties: {
@@ -120,13 +540,43 @@ const tools: Tool[] = [
           type: 'number',
           description: 'Number of months to look ahead (default: 6)',
         },
+        ...calendarProperties,
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'get_holiday_cache_status',
+    description: 'Show where holiday data comes from: years generated from built-in rules, and years fetched online (GOV.UK / Nager.Date) with their fetch time',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        country: calendarProperties.country,
+        region: calendarProperties.region,
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'refresh_holiday_cache',
+    description: 'Refetch holidays from GOV.UK / Nager.Date for some years, update the on-disk cache and compare them with the built-in rules',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        years: {
+          type: 'array',
+          items: { type: 'number' },
+          description: 'Years to refresh (default: this year and next)',
+        },
+        country: calendarProperties.country,
+        region: calendarProperties.region,
       },
       required: [],
     },
   },
   {
     name: 'calculate_sprint_dates',
-    description: 'Calculate sprint start and end dates based on sprint length',
+    description: 'Calculate sprint start and end dates based on sprint length, with the working days and public holidays in the sprint',
     inputSchema: {
       type: 'object',
       properties: {
@@ -138,31 +588,30 @@ const tools: Tool[] = [
           type: 'number',
           description: 'Length of sprint in weeks (e.g., 2 for 2-week sprints)',
         },
+        ...calendarProperties,
       },
       required: ['start_date', 'sprint_length_weeks'],
     },
   },
   {
     name: 'get_current_sprint_info',
-    description: 'Get information about current sprint based on first sprint start date and sprint length',
+    description: 'Get the sprint a date falls in (today by default): sprint number, working days elapsed and remaining, public holidays in the sprint, and the next sprint. Before the first sprint or during a shutdown, reports the next sprint instead',
     inputSchema: {
       type: 'object',
       properties: {
-        first_sprint_start: {
+        ...sprintProperties,
+        as_of: {
           type: 'string',
-          description: 'Date when sprint 1 started in ISO format (YYYY-MM-DD)',
-        },
-        sprint_length_weeks: {
-          type: 'number',
-          description: 'Length of sprint in weeks',
+          description: 'Date to report on in ISO format (YYYY-MM-DD) or "today" (default: today)',
         },
+        ...calendarProperties,
       },
-      required: ['first_sprint_start', 'sprint_length_weeks'],
+      required: [],
     },
   },
   {
     name: 'get_asana_due_date',
-    description: "Get Asana due date following James's rules: next working day at 4:00 PM (Friday → Monday)",
+    description: "Get Asana due date by a due-date policy. The built-in \"asana\" policy follows James's rules: next working day at the due hour, 4:00 PM by default (Friday → Monday)",
     inputSchema: {
       type: 'object',
       properties: {
@@ -170,34 +619,337 @@ const tools: Tool[] = [
           type: 'string',
           description: 'Date to calculate from in ISO format (YYYY-MM-DD). Use "today" for current date. Default: today',
         },
+        policy: duePolicyProperty,
+        target: targetProperty,
+        due_hour: asanaDueHourProperty,
+        ...calendarProperties,
       },
       required: [],
     },
   },
   {
     name: 'parse_asana_date_request',
-    description: 'Parse natural language date requests for Asana (e.g., "tomorrow", "in 3 days", "in 2 weeks")',
+    description: 'Parse natural language date requests for Asana (e.g., "next Friday", "in 3 working days", "end of month", "3rd March", "by 2pm Friday"). Returns an error if the request is not understood',
     inputSchema: {
       type: 'object',
       properties: {
         request: {
           type: 'string',
-          description: 'Natural language date request (e.g., "tomorrow", "in 5 days", "next working day")',
+          description: 'Natural language date request (e.g., "tomorrow", "next Friday", "2 weeks from Tuesday", "first Monday of next month", "03/03/2026")',
         },
+        ...sprintProperties,
+        policy: duePolicyProperty,
+        target: targetProperty,
+        due_hour: asanaDueHourProperty,
+        ...calendarProperties,
       },
       required: ['request'],
     },
   },
+  {
+    name: 'build_asana_date_fields',
+    description: 'Build the date fields for an Asana task (start_on/start_at, due_on/due_at) from natural-language start and due phrases or a duration in working days. Chooses all-day or timed explicitly and rejects combinations Asana would refuse, such as a start after the due date or start_at without due_at',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        start: {
+          type: 'string',
+          description: 'When work starts (e.g. "next Monday", "9am tomorrow"). Optional',
+        },
+        due: {
+          type: 'string',
+          description: 'When the task is due (e.g. "end of next week", "by 2pm Friday"). Default: from the duration, or the due-date policy',
+        },
+        duration_working_days: {
+          type: 'number',
+          description: 'Working days from start to due, both counted (e.g. 5 for Monday to Friday). Give it with start or due',
+        },
+        timing: {
+          type: 'string',
+          enum: ['all-day', 'timed'],
+          description: '"all-day" for start_on/due_on, "timed" for due_at (and start_at when the start names a time). Default: timed if a phrase names a time, otherwise all-day',
+        },
+        policy: duePolicyProperty,
+        due_hour: asanaDueHourProperty,
+        ...sprintProperties,
+        ...calendarProperties,
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'batch_date_operations',
+    description: 'Run many date operations in one call, e.g. a whole backlog of due dates. Each operation names any other tool and its arguments; results come back in order, each with its own result or error',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        operations: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              tool: {
+                type: 'string',
+                description: 'Tool name, e.g. "calculate_working_days" or "parse_asana_date_request"',
+              },
+              arguments: {
+                type: 'object',
+                description: 'Arguments for the tool, as for a direct call',
+              },
+            },
+            required: ['tool'],
+          },
+          description: 'Operations to run in order (up to 200), e.g. [{"tool": "calculate_working_days", "arguments": {"start_date": "today", "num_days": 5}}]',
+        },
+      },
+      required: ['operations'],
+    },
+  },
 ];
 
+const MAX_BATCH_OPERATIONS = 200;
+
+// Longest calendar_exceptions list in a response; longer ranges report the total
+const MAX_LISTED_EXCEPTIONS = 100;
+
+// Nested batches, and cache refreshes that would change holidays between items
+const BATCH_EXCLUDED_TOOLS = ['batch_date_operations', 'refresh_holiday_cache'];
+
+// Every tool answers with one JSON text block
+interface ToolResult {
+  [key: string]: unknown;
+  content: Array<{ type: 'text'; text: string }>;
+  isError?: boolean;
+}
+
+// Old tool names, still accepted so existing prompts and clients keep working
+const TOOL_ALIASES = new Map<string, string>([
+  ['get_today_uk', 'get_today'],
+  ['is_uk_bank_holiday', 'is_bank_holiday'],
+]);
+
+// Helper function to read the per-call Asana due hour
+function parseDueHour(args: Record<string, unknown> | undefined): number | undefined {
+  const dueHour = args?.due_hour as number | undefined;
+  if (dueHour !== undefined && (!Number.isInteger(dueHour) || dueHour < 0 || dueHour > 23)) {
+    throw new Error(`Invalid due_hour: ${dueHour}. Expected a whole hour from 0 to 23`);
+  }
+  return dueHour;
+}
+
+// Helper function to read the sprint cadence from tool arguments, falling back to the SPRINT_* settings
+function parseSprintCadence(args: Record<string, unknown> | undefined): SprintCadence | undefined {
+  const firstSprintStart = (args?.first_sprint_start as string | undefined) || config.firstSprintStart;
+  const lengthWeeks = args?.sprint_length_weeks !== undefined
+    ? parseSprintLength(args.sprint_length_weeks)
+    : config.sprintLengthWeeks;
+  if (!firstSprintStart || !lengthWeeks) {
+    return undefined;
+  }
+
+  const startDay = (args?.start_day as string | undefined) || config.sprintStartDay;
+  const startWeekday = startDay ? WEEKDAYS[startDay.toLowerCase()] : undefined;
+  if (startDay && startWeekday === undefined) {
+    throw new Error(`Invalid start_day: ${startDay}. Expected a weekday, e.g. "monday" or "wed"`);
+  }
+
+  return {
+    firstSprintStart: parseDate(firstSprintStart),
+    lengthWeeks,
+    startWeekday,
+    shutdowns: ((args?.shutdowns as string[] | undefined) || config.sprintShutdowns).map(parseShutdown),
+  };
+}
+
+// Helper function to validate sprint_length_weeks
+function parseSprintLength(value: unknown): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    throw new Error(`Invalid sprint_length_weeks: ${value}. Expected a whole number of weeks (1 or more)`);
+  }
+  return value;
+}
+
+// Helper function to describe a sprint in a response
+function describeSprint(sprint: Sprint): Record<string, unknown> {
+  return {
+    number: sprint.number,
+    start: formatDateISO(sprint.start),
+    end: formatDateISO(sprint.end),
+    start_formatted: formatDateLong(sprint.start),
+    end_formatted: formatDateLong(sprint.end),
+  };
+}
+
+// Helper function to read planning phases ({name, working_days, buffer_days}) from tool arguments
+function parsePhases(args: Record<string, unknown> | undefined): PhaseInput[] {
+  const phases = args?.phases as Array<Record<string, unknown>> | undefined;
+  if (!Array.isArray(phases)) {
+    throw new Error('phases must be an array of {"name", "working_days"} objects');
+  }
+  return phases.map(phase => ({
+    name: phase?.name as string,
+    workingDays: phase?.working_days as number,
+    bufferDays: phase?.buffer_days as number | undefined,
+  }));
+}
+
+// Helper function to read timeline tasks ({id, working_days, depends_on, assignee}) from tool arguments
+function parseTimelineTasks(args: Record<string, unknown> | undefined): TimelineTask[] {
+  const tasks = args?.tasks as Array<Record<string, unknown>> | undefined;
+  if (!Array.isArray(tasks)) {
+    throw new Error('tasks must be an array of {"id", "working_days"} objects');
+  }
+  return tasks.map(task => ({
+    id: task?.id as string,
+    name: task?.name as string | undefined,
+    workingDays: task?.working_days as number,
+    dependsOn: task?.depends_on as string[] | undefined,
+    assignee: task?.assignee as string | undefined,
+  }));
+}
+
+// Helper function to read people ({name, country, region, work_week, leave}) from tool arguments
+function parsePeople(args: Record<string, unknown> | undefined): Person[] {
+  const people = (args?.people ?? []) as Array<Record<string, unknown>>;
+  if (!Array.isArray(people)) {
+    throw new Error('people must be an array of {"name", "country", "leave"} objects');
+  }
+  return people.map(person => ({
+    name: person?.name as string,
+    calendar: parseCalendarArgs(person),
+    leave: person?.leave as string[] | undefined,
+  }));
+}
+
+// Helper function to format a due date for the requested tracker
+function describeTrackerFields(args: Record<string, unknown> | undefined, dueDate: Date, timezone: string): Record<string, unknown> {
+  return formatForTracker((args?.target as string | undefined) || 'asana', dueDate, timezone);
+}
+
+// Helper function to read the per-call include_start / include_end / roll options
+function parseWorkingDayOptions(args: Record<string, unknown> | undefined): WorkingDayOptions {
+  const roll = args?.roll as RollPolicy | undefined;
+  if (roll !== undefined && !ROLL_POLICIES.includes(roll)) {
+    throw new Error(`Invalid roll: ${roll}. Expected one of: ${ROLL_POLICIES.join(', ')}`);
+  }
+  return {
+    includeStart: args?.include_start as boolean | undefined,
+    includeEnd: args?.include_end as boolean | undefined,
+    roll,
+  };
+}
+
 // Helper function to parse date input
-function parseDateInput(dateStr: string): Date {
+function parseDateInput(dateStr: string, timezone?: string): Date {
   if (dateStr.toLowerCase() === 'today') {
-    return getTodayUK();
+    return getToday(timezone);
   }
   return parseDate(dateStr);
 }
 
+// Helper function to read the per-call calendar override
+function parseCalendarArgs(args: Record<string, unknown> | undefined): CalendarOptions {
+  return {
+    country: args?.country as string | undefined,
+    region: args?.region as string | undefined,
+    timezone: args?.timezone as string | undefined,
+    workWeek: args?.work_week as string | undefined,
+  };
+}
+
+// Helper function to turn ["GB", "US-NY"] into calendars
+function parseCalendarList(countries: string[], workWeek?: string): CalendarOptions[] {
+  return countries.map(code => {
+    const [country] = code.split('-');
+    return {
+      country,
+      region: code.includes('-') ? code : undefined,
+      workWeek,
+    };
+  });
+}
+
+// Helper function to pick single or combined calendars from tool arguments
+function parseCalendarSelection(args: Record<string, unknown> | undefined): CalendarSelection {
+  const countries = args?.countries as string[] | undefined;
+  if (countries && countries.length > 0) {
+    return {
+      calendars: parseCalendarList(countries, args?.work_week as string | undefined),
+      match: (args?.match as 'all' | 'any') || 'all',
+    };
+  }
+  return parseCalendarArgs(args);
+}
+
+// Helper function to list the holidays and company calendar days a calculation crossed,
+// capped for long ranges
+async function describeCalendarExceptions(
+  startDate: Date,
+  endDate: Date,
+  selection: CalendarSelection
+): Promise<Record<string, unknown>> {
+  const { exceptions, total } = await getCalendarExceptions(startDate, endDate, selection, { limit: MAX_LISTED_EXCEPTIONS });
+  return {
+    calendar_exceptions: exceptions.map(exception => ({
+      date: formatDateISO(exception.date),
+      country: exception.country,
+      region: exception.region,
+      working: exception.working,
+      source: exception.source,
+      reason: exception.reason,
+      holiday: exception.holiday && describeHoliday(exception.holiday),
+    })),
+    ...(total > exceptions.length && { calendar_exceptions_total: total }),
+  };
+}
+
+// Helper function to describe a holiday in a response
+function describeHoliday(holiday: Holiday): Record<string, unknown> {
+  return {
+    date: holiday.date,
+    name: holiday.name,
+    local_name: holiday.localName,
+    type: holiday.type,
+    substitute: holiday.substitute,
+    substitute_for: holiday.substituteFor,
+    scope: holiday.scope,
+    regions: holiday.regions,
+    excluded_regions: holiday.excludedRegions,
+  };
+}
+
+// Helper function to describe the calendar used in a response
+function describeCalendar(calendar: CalendarOptions): Record<string, unknown> {
+  return {
+    ...resolveCalendar(calendar),
+    work_week: formatWorkWeek(resolveWorkWeek(calendar)),
+  };
+}
+
+// Helper function to read the per-call business hours
+function parseWorkingHoursArgs(args: Record<string, unknown> | undefined) {
+  return resolveWorkingHours({
+    hours: args?.working_hours as string | undefined,
+    lunchBreak: args?.lunch_break as string | undefined,
+  });
+}
+
+// Helper function to label a participant by region, country or timezone
+function describeParticipant(args: Record<string, unknown>): string {
+  return (args.region || args.country || args.timezone || 'default') as string;
+}
+
+// Helper function to describe the calendar(s) used in a response
+function describeCalendarSelection(selection: CalendarSelection): Record<string, unknown> {
+  if ('calendars' in selection) {
+    return {
+      countries: selection.calendars.map(calendar => describeCalendar(calendar)),
+      match: selection.match,
+    };
+  }
+  return describeCalendar(selection);
+}
+
 // Create server
 const server = new Server(
   {
@@ -213,24 +965,32 @@ const server = new Server(
 
 // Handle tool listing
 server.setRequestHandler(ListToolsRequestSchema, async () => ({
-  tools,
+  tools: [
+    ...tools,
+    ...[...TOOL_ALIASES].map(([alias, target]) => {
+      const tool = tools.find(candidate => candidate.name === target)!;
+      return { ...tool, name: alias, description: `${tool.description} (old name for ${target})` };
+    }),
+  ],
 }));
 
-// Handle tool execution
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+// Run one tool call; errors come back as an isError result
+async function handleToolCall(toolName: string, args: Record<string, unknown> | undefined): Promise<ToolResult> {
+  const name = TOOL_ALIASES.get(toolName) || toolName;
 
   try {
     switch (name) {
-      case 'get_today_uk': {
-        const today = getTodayUK();
+      case 'get_today': {
+        const timezone = resolveTimezone(parseCalendarArgs(args));
+        const today = getToday(timezone);
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
                 date: formatDateISO(today),
-                formatted: formatDateUK(today),
+                formatted: formatDateLong(today),
+                timezone,
                 day_of_week: today.toLocaleDateString('en-GB', { weekday: 'long' }),
               }, null, 2),
             },
@@ -239,11 +999,18 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'calculate_working_days': {
-        const startDate = parseDateInput(args!.start_date as string);
+        const calendar = parseCalendarArgs(args);
+        const timezone = resolveTimezone(calendar);
+        const startDate = parseDateInput(args!.start_date as string, timezone);
         const numDays = args!.num_days as number;
+        if (!Number.isInteger(numDays)) {
+          throw new Error(`Invalid num_days: ${args!.num_days}. Expected a whole number of working days`);
+        }
         const direction = (args!.direction as 'forward' | 'backward') || 'forward';
+        const selection = parseCalendarSelection(args);
+        const options = parseWorkingDayOptions(args);
 
-        const result = await calculateWorkingDays(startDate, numDays, direction);
+        const result = await calculateWorkingDays(startDate, numDays, direction, selection, options);
 
         return {
           content: [
@@ -252,9 +1019,15 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               text: JSON.stringify({
                 start_date: formatDateISO(startDate),
                 num_days: numDays,
-                direction,
+                direction: direction === 'backward' || numDays < 0 ? 'backward' : 'forward',
+                include_start: options.includeStart === true,
+                roll: options.roll || 'none',
+                ...describeCalendarSelection(selection),
+                timezone,
                 result_date: formatDateISO(result),
-                formatted: formatDateUK(result),
+                formatted: formatDateLong(result),
+                ...await describeCalendarExceptions(startDate, result, selection),
+                warnings: getHolidayDataWarnings(startDate, result, selection),
               }, null, 2),
             },
           ],
@@ -262,8 +1035,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'get_next_working_day': {
-        const fromDate = parseDateInput(args!.from_date as string);
-        const result = await getNextWorkingDay(fromDate);
+        const calendar = parseCalendarArgs(args);
+        const timezone = resolveTimezone(calendar);
+        const fromDate = parseDateInput(args!.from_date as string, timezone);
+        const result = await getNextWorkingDay(fromDate, calendar);
 
         return {
           content: [
@@ -271,8 +1046,102 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               type: 'text',
               text: JSON.stringify({
                 from_date: formatDateISO(fromDate),
+                ...describeCalendar(calendar),
+                timezone,
                 next_working_day: formatDateISO(result),
-                formatted: formatDateUK(result),
+                formatted: formatDateLong(result),
+                ...await describeCalendarExceptions(fromDate, result, calendar),
+                warnings: getHolidayDataWarnings(fromDate, result, calendar),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'adjust_to_working_day': {
+        const calendar = parseCalendarArgs(args);
+        const date = parseDateInput(args!.date as string, resolveTimezone(calendar));
+        const convention = (args!.convention as RollPolicy | undefined) || 'following';
+        if (!ROLL_POLICIES.includes(convention)) {
+          throw new Error(`Invalid convention: ${convention}. Expected one of: ${ROLL_POLICIES.join(', ')}`);
+        }
+        const endOfMonth = args!.end_of_month === true;
+        const adjustment = await adjustToWorkingDay(date, convention, calendar, { endOfMonth });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                date: formatDateISO(date),
+                convention,
+                end_of_month: endOfMonth,
+                ...describeCalendar(calendar),
+                adjusted_date: formatDateISO(adjustment.date),
+                formatted: formatDateLong(adjustment.date),
+                moved: adjustment.moved,
+                days_moved: differenceInCalendarDays(adjustment.date, date),
+                is_working_day: adjustment.status.working,
+                source: adjustment.status.source,
+                reason: adjustment.status.reason,
+                holiday: adjustment.status.holiday && describeHoliday(adjustment.status.holiday),
+                explanation: adjustment.explanation,
+                warnings: getHolidayDataWarnings(date, adjustment.date, calendar),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'generate_schedule': {
+        const calendar = parseCalendarArgs(args);
+        const timezone = resolveTimezone(calendar);
+        const rule = args!.rule as string;
+        const startDate = parseDateInput((args?.start_date as string | undefined) || 'today', timezone);
+        const count = args?.count as number | undefined;
+        if (count !== undefined && (!Number.isInteger(count) || count < 1 || count > MAX_OCCURRENCES)) {
+          throw new Error(`Invalid count: ${count}. Expected a whole number from 1 to ${MAX_OCCURRENCES}`);
+        }
+        const endDate = args?.end_date
+          ? parseDateInput(args.end_date as string, timezone)
+          : addDays(addYears(startDate, count !== undefined || /COUNT=/i.test(rule) ? 100 : 1), -1);
+        if (endDate < startDate) {
+          throw new Error('end_date must not be before start_date');
+        }
+        const adjustment = (args?.adjustment as ScheduleAdjustment | undefined) || 'following';
+        if (adjustment !== 'skip' && !ROLL_POLICIES.includes(adjustment)) {
+          throw new Error(`Invalid adjustment: ${adjustment}. Expected one of: ${[...ROLL_POLICIES, 'skip'].join(', ')}`);
+        }
+
+        const schedule = await generateSchedule(rule, { start: startDate, end: endDate, count, adjustment, calendar });
+        const lastDate = schedule.occurrences.length > 0
+          ? schedule.occurrences[schedule.occurrences.length - 1].date
+          : endDate;
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                rule,
+                source: schedule.recurrence.source,
+                start_date: formatDateISO(startDate),
+                end_date: formatDateISO(endDate),
+                adjustment,
+                ...describeCalendar(calendar),
+                count: schedule.occurrences.length,
+                dates: schedule.occurrences.map(occurrence => formatDateISO(occurrence.date)),
+                occurrences: schedule.occurrences.map(occurrence => ({
+                  date: formatDateISO(occurrence.date),
+                  original_date: formatDateISO(occurrence.original),
+                  moved: occurrence.moved,
+                  reason: occurrence.reason,
+                })),
+                skipped: schedule.skipped.map(skipped => ({
+                  original_date: formatDateISO(skipped.original),
+                  reason: skipped.reason,
+                })),
+                warnings: getHolidayDataWarnings(startDate, lastDate, calendar),
               }, null, 2),
             },
           ],
@@ -280,9 +1149,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'get_working_days_between': {
+        const calendar = parseCalendarArgs(args);
         const startDate = parseDate(args!.start_date as string);
         const endDate = parseDate(args!.end_date as string);
-        const count = await getWorkingDaysBetween(startDate, endDate);
+        const options = parseWorkingDayOptions(args);
+        const count = await getWorkingDaysBetween(startDate, endDate, calendar, options);
 
         return {
           content: [
@@ -291,16 +1162,288 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               text: JSON.stringify({
                 start_date: formatDateISO(startDate),
                 end_date: formatDateISO(endDate),
+                include_start: options.includeStart !== false,
+                include_end: options.includeEnd !== false,
+                roll: options.roll || 'none',
+                ...describeCalendar(calendar),
                 working_days: count,
+                ...await describeCalendarExceptions(startDate, endDate, calendar),
+                warnings: getHolidayDataWarnings(startDate, endDate, calendar),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'plan_backwards': {
+        const calendar = parseCalendarArgs(args);
+        const endDate = parseDate(args!.end_date as string);
+        const includeEndDate = args?.include_end_date !== false;
+        const plan = await planBackwards(endDate, parsePhases(args), calendar, { includeEndDate });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                end_date: formatDateISO(endDate),
+                include_end_date: includeEndDate,
+                ...describeCalendar(calendar),
+                today: formatDateISO(plan.today),
+                finish: formatDateISO(plan.finish),
+                latest_start: formatDateISO(plan.latestStart),
+                latest_start_formatted: formatDateLong(plan.latestStart),
+                feasible: plan.feasible,
+                total_working_days: plan.phases.reduce((total, phase) => total + phase.workingDays + phase.bufferDays, 0),
+                phases: plan.phases.map(phase => ({
+                  name: phase.name,
+                  working_days: phase.workingDays,
+                  buffer_days: phase.bufferDays,
+                  start: formatDateISO(phase.start),
+                  end: formatDateISO(phase.end),
+                  buffer_end: phase.bufferEnd && formatDateISO(phase.bufferEnd),
+                  start_formatted: formatDateLong(phase.start),
+                  end_formatted: formatDateLong(phase.end),
+                  in_past: phase.inPast,
+                  working_days_late: phase.workingDaysLate,
+                })),
+                ...await describeCalendarExceptions(plan.latestStart, plan.finish, calendar),
+                warnings: [
+                  ...plan.phases
+                    .filter(phase => phase.inPast)
+                    .map(phase => `${phase.name} should have started on ${formatDateISO(phase.start)}, ${phase.workingDaysLate} working day${phase.workingDaysLate === 1 ? '' : 's'} ago`),
+                  ...getHolidayDataWarnings(plan.latestStart, plan.finish, calendar),
+                ],
               }, null, 2),
             },
           ],
         };
       }
 
-      case 'is_uk_bank_holiday': {
+      case 'plan_timeline': {
+        const calendar = parseCalendarArgs(args);
+        const startDate = parseDateInput(args!.start_date as string, resolveTimezone(calendar));
+        const people = parsePeople(args);
+        const timeline = await scheduleTimeline(parseTimelineTasks(args), people, { start: startDate, calendar });
+
+        const calendars = [calendar, ...people.filter(person => timeline.tasks.some(task => task.assignee === person.name)).map(person => person.calendar)];
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                start_date: formatDateISO(timeline.start),
+                finish: formatDateISO(timeline.finish),
+                finish_formatted: formatDateLong(timeline.finish),
+                critical_path: timeline.criticalPath,
+                people: people.map(person => ({
+                  name: person.name,
+                  ...describeCalendar(person.calendar),
+                  leave: person.leave || [],
+                })),
+                tasks: timeline.tasks.map(task => ({
+                  id: task.id,
+                  name: task.name,
+                  assignee: task.assignee,
+                  working_days: task.workingDays,
+                  depends_on: task.dependsOn,
+                  driven_by: task.drivenBy,
+                  earliest_start: formatDateISO(task.earliestStart),
+                  earliest_finish: formatDateISO(task.earliestFinish),
+                  latest_start: formatDateISO(task.latestStart),
+                  latest_finish: formatDateISO(task.latestFinish),
+                  float_working_days: task.floatDays,
+                  critical: task.critical,
+                  delays: task.delays.map(delay => ({
+                    date: formatDateISO(delay.date),
+                    source: delay.source,
+                    reason: delay.reason,
+                  })),
+                })),
+                warnings: [...new Set([
+                  ...timeline.overlaps.map(overlap => `${overlap.assignee} is on "${overlap.tasks[0]}" and "${overlap.tasks[1]}" at the same time`),
+                  ...calendars.flatMap(selection => getHolidayDataWarnings(timeline.start, timeline.finish, selection)),
+                ])],
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'get_common_working_days': {
+        const startDate = parseDateInput(args!.start_date as string);
+        const endDate = parseDateInput(args!.end_date as string);
+        const calendars = parseCalendarList(args!.countries as string[], args!.work_week as string | undefined);
+        const match = (args!.match as 'all' | 'any') || 'all';
+        const days = await getCommonWorkingDays(startDate, endDate, calendars, match);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                start_date: formatDateISO(startDate),
+                end_date: formatDateISO(endDate),
+                countries: calendars.map(calendar => describeCalendar(calendar)),
+                match,
+                working_days_count: days.filter(day => day.working).length,
+                working_days: days.filter(day => day.working).map(day => formatDateISO(day.date)),
+                // Weekends shared by every calendar are left out to keep the breakdown readable
+                closures: days
+                  .filter(day => (day.closed.length > 0 && day.closed.length < calendars.length) ||
+                    day.closed.some(closure => closure.source !== 'weekend'))
+                  .map(day => ({
+                    date: formatDateISO(day.date),
+                    working: day.working,
+                    closed: day.closed,
+                  })),
+                warnings: getHolidayDataWarnings(startDate, endDate, { calendars, match }),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'add_working_hours': {
+        const calendar = parseCalendarArgs(args);
+        const timezone = resolveTimezone(calendar);
+        const workingHours = parseWorkingHoursArgs(args);
+        const start = parseTimestamp(args!.start as string, timezone);
+        const hours = args!.hours as number;
+        if (typeof hours !== 'number' || !Number.isFinite(hours) || hours < 0) {
+          throw new Error(`Invalid hours: ${args!.hours}. Expected a number of business hours, zero or more`);
+        }
+        const result = await addWorkingHours(start, hours, timezone, workingHours, calendar);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                start: formatTimestamp(start, timezone),
+                hours,
+                ...describeCalendar(calendar),
+                timezone,
+                business_hours: formatWorkingHours(workingHours),
+                result: formatTimestamp(result, timezone),
+                formatted: formatDateTime(result, timezone),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'get_working_hours_between': {
+        const calendar = parseCalendarArgs(args);
+        const timezone = resolveTimezone(calendar);
+        const workingHours = parseWorkingHoursArgs(args);
+        const start = parseTimestamp(args!.start as string, timezone);
+        const end = parseTimestamp(args!.end as string, timezone);
+        const hours = await getWorkingHoursBetween(start, end, timezone, workingHours, calendar);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                start: formatTimestamp(start, timezone),
+                end: formatTimestamp(end, timezone),
+                ...describeCalendar(calendar),
+                timezone,
+                business_hours: formatWorkingHours(workingHours),
+                working_hours: Math.round(hours * 100) / 100,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'convert_time': {
+        const from = args?.from as string | undefined;
+        const timezone = resolveTimezone(from ? parseZone(from) : {});
+        const instant = parseTimestamp(args!.time as string, timezone);
+        const conversions = convertTime(instant, timezone, args!.to as string[]);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                time: formatTimestamp(instant, timezone),
+                from: from || timezone,
+                timezone,
+                conversions: conversions.map(conversion => ({
+                  zone: conversion.zone,
+                  timezone: conversion.timezone,
+                  time: formatTimestamp(instant, conversion.timezone),
+                  formatted: formatDateTime(instant, conversion.timezone),
+                  utc_offset: conversion.utcOffset,
+                  day_offset: conversion.dayOffset,
+                })),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'find_overlap_window': {
+        const participantArgs = args!.participants as Array<Record<string, unknown>>;
+        const participants: Participant[] = participantArgs.map(participant => {
+          const calendar = parseCalendarArgs(participant);
+          return {
+            label: describeParticipant(participant),
+            calendar,
+            timezone: resolveTimezone(calendar),
+            workingHours: parseWorkingHoursArgs(participant),
+          };
+        });
+        const date = parseDateInput(args!.date as string, participants[0]?.timezone);
+        const { windows, daysOff } = await findOverlapWindows(date, participants);
+        const totalMinutes = windows.reduce((sum, window) => sum + (window.end.getTime() - window.start.getTime()) / 60000, 0);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                date: formatDateISO(date),
+                reference_timezone: participants[0].timezone,
+                participants: participants.map(participant => ({
+                  participant: participant.label,
+                  ...describeCalendar(participant.calendar),
+                  timezone: participant.timezone,
+                  business_hours: formatWorkingHours(participant.workingHours),
+                })),
+                has_overlap: windows.length > 0,
+                total_overlap_hours: Math.round(totalMinutes / 60 * 100) / 100,
+                windows: windows.map(window => ({
+                  start: formatTimestamp(window.start, 'UTC'),
+                  end: formatTimestamp(window.end, 'UTC'),
+                  duration_hours: Math.round((window.end.getTime() - window.start.getTime()) / 36000) / 100,
+                  local: participants.map(participant => ({
+                    participant: participant.label,
+                    start: formatTimestamp(window.start, participant.timezone),
+                    end: formatTimestamp(window.end, participant.timezone),
+                  })),
+                })),
+                days_off: daysOff.map(dayOff => ({
+                  participant: dayOff.participant,
+                  date: formatDateISO(dayOff.status.date),
+                  source: dayOff.status.source,
+                  reason: dayOff.status.reason,
+                })),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'is_bank_holiday': {
+        const calendar = parseCalendarArgs(args);
         const date = parseDate(args!.date as string);
-        const isHoliday = await isUKBankHoliday(date);
+        const isHoliday = await isBankHoliday(date, calendar);
+        const holiday = await getHoliday(date, calendar);
 
         return {
           content: [
@@ -308,7 +1451,34 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               type: 'text',
               text: JSON.stringify({
                 date: formatDateISO(date),
+                ...resolveCalendar(calendar),
                 is_bank_holiday: isHoliday,
+                holiday: holiday && describeHoliday(holiday),
+                warnings: getHolidayDataWarnings(date, date, calendar),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'explain_date': {
+        const calendar = parseCalendarArgs(args);
+        const date = parseDateInput(args!.date as string, resolveTimezone(calendar));
+        const status = await explainDay(date, calendar);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                date: formatDateISO(date),
+                formatted: formatDateLong(date),
+                ...describeCalendar(calendar),
+                is_working_day: status.working,
+                source: status.source,
+                reason: status.reason,
+                holiday: status.holiday && describeHoliday(status.holiday),
+                warnings: getHolidayDataWarnings(date, date, calendar),
               }, null, 2),
             },
           ],
@@ -317,7 +1487,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
       case 'get_upcoming_bank_holidays': {
         const monthsAhead = (args!.months_ahead as number) || 6;
-        const holidays = await getUpcomingBankHolidays(monthsAhead);
+        const calendar = parseCalendarArgs(args);
+        const today = getToday(resolveTimezone(calendar));
+        const holidays = await getUpcomingBankHolidays(monthsAhead, calendar, today);
 
         return {
           content: [
@@ -325,10 +1497,75 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               type: 'text',
               text: JSON.stringify({
                 months_ahead: monthsAhead,
+                ...resolveCalendar(calendar),
                 holidays: holidays.map(h => ({
-                  date: h.date,
-                  title: h.title,
+                  ...describeHoliday(h),
+                  // Kept for clients written against the old response
+                  title: h.name,
+                })),
+                warnings: getHolidayDataWarnings(today, addMonths(today, monthsAhead), calendar),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'get_holiday_cache_status': {
+        const calendar = parseCalendarArgs(args);
+        const status = getHolidayCacheStatus(calendar);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                country: status.country,
+                region: status.region,
+                cache_dir: config.holidayCacheDir,
+                ttl_hours: config.holidayCacheTtlHours,
+                verify_online: config.verifyHolidaysOnline,
+                generated: status.generated.map(entry => ({
+                  year: entry.year,
+                  source: 'built-in rules',
+                  generated_at: entry.generatedAt,
+                })),
+                remote: status.remote.map(entry => ({
+                  year: entry.year,
+                  source: entry.source,
+                  fetched_at: entry.fetchedAt,
+                  stale: entry.stale,
+                  holiday_count: entry.holidayCount,
                 })),
+                years_covered: [...new Set([...status.generated, ...status.remote].map(entry => entry.year))].sort((a, b) => a - b),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'refresh_holiday_cache': {
+        const calendar = parseCalendarArgs(args);
+        const thisYear = getToday(resolveTimezone(calendar)).getFullYear();
+        const years = (args?.years as number[] | undefined) || [thisYear, thisYear + 1];
+        const results = await refreshHolidayCache(years, calendar);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                ...resolveCalendar(calendar),
+                years: results.map(({ year, crossCheck }) => crossCheck
+                  ? {
+                    year,
+                    source: crossCheck.source,
+                    fetched_at: crossCheck.fetchedAt,
+                    stale: crossCheck.stale,
+                    matches_built_in_rules: crossCheck.missing.length === 0 && crossCheck.unexpected.length === 0,
+                    missing_from_rules: crossCheck.missing,
+                    not_in_remote_source: crossCheck.unexpected,
+                  }
+                  : { year, source: 'built-in rules', error: 'Remote source unavailable and nothing cached' }),
               }, null, 2),
             },
           ],
@@ -336,9 +1573,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'calculate_sprint_dates': {
+        const calendar = parseCalendarArgs(args);
         const startDate = parseDate(args!.start_date as string);
-        const sprintLengthWeeks = args!.sprint_length_weeks as number;
+        const sprintLengthWeeks = parseSprintLength(args!.sprint_length_weeks);
         const result = calculateSprintDates(startDate, sprintLengthWeeks);
+        const progress = await getSprintProgress(result, result.start, calendar);
 
         return {
           content: [
@@ -348,8 +1587,14 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                 sprint_start: formatDateISO(result.start),
                 sprint_end: formatDateISO(result.end),
                 length_weeks: result.length,
-                start_formatted: formatDateUK(result.start),
-                end_formatted: formatDateUK(result.end),
+                start_formatted: formatDateLong(result.start),
+                end_formatted: formatDateLong(result.end),
+                ...describeCalendar(calendar),
+                working_days: progress.workingDays,
+                first_working_day: progress.firstWorkingDay && formatDateISO(progress.firstWorkingDay),
+                last_working_day: progress.lastWorkingDay && formatDateISO(progress.lastWorkingDay),
+                holidays: progress.holidays.map(describeHoliday),
+                warnings: getHolidayDataWarnings(result.start, result.end, calendar),
               }, null, 2),
             },
           ],
@@ -357,22 +1602,87 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'get_current_sprint_info': {
-        const firstSprintStart = parseDate(args!.first_sprint_start as string);
-        const sprintLengthWeeks = args!.sprint_length_weeks as number;
-        const info = getCurrentSprintInfo(firstSprintStart, sprintLengthWeeks);
+        const calendar = parseCalendarArgs(args);
+        const cadence = parseSprintCadence(args);
+        if (!cadence) {
+          throw new Error('get_current_sprint_info needs first_sprint_start and sprint_length_weeks (or FIRST_SPRINT_START and SPRINT_LENGTH_WEEKS)');
+        }
+        const asOf = parseDateInput((args?.as_of as string | undefined) || 'today', resolveTimezone(calendar));
+        const position = locateSprint(cadence, asOf);
+        const sprint = position.sprint;
+        const progress = sprint && await getSprintProgress(sprint, asOf, calendar);
 
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
-                sprint_number: info.sprintNumber,
-                days_into_sprint: info.daysIntoSprint,
-                days_remaining: info.daysRemaining,
-                current_sprint_start: formatDateISO(info.currentSprintStart),
-                current_sprint_end: formatDateISO(info.currentSprintEnd),
-                start_formatted: formatDateUK(info.currentSprintStart),
-                end_formatted: formatDateUK(info.currentSprintEnd),
+                as_of: formatDateISO(asOf),
+                status: position.status,
+                ...describeCalendar(calendar),
+                sprint_number: sprint ? sprint.number : null,
+                days_into_sprint: sprint ? differenceInCalendarDays(asOf, sprint.start) : null,
+                days_remaining: sprint ? differenceInCalendarDays(sprint.end, asOf) + 1 : null,
+                current_sprint_start: sprint && formatDateISO(sprint.start),
+                current_sprint_end: sprint && formatDateISO(sprint.end),
+                start_formatted: sprint && formatDateLong(sprint.start),
+                end_formatted: sprint && formatDateLong(sprint.end),
+                working_days: progress ? progress.workingDays : null,
+                working_days_elapsed: progress ? progress.workingDaysElapsed : null,
+                working_days_remaining: progress ? progress.workingDaysRemaining : null,
+                last_working_day: progress?.lastWorkingDay ? formatDateISO(progress.lastWorkingDay) : null,
+                holidays: progress ? progress.holidays.map(describeHoliday) : [],
+                previous_sprint: position.previous && describeSprint(position.previous),
+                next_sprint: describeSprint(position.next),
+                days_until_next_sprint: differenceInCalendarDays(position.next.start, asOf),
+                working_days_until_next_sprint: await getWorkingDaysBetween(asOf, position.next.start, calendar, { includeEnd: false }),
+                shutdown_before_next_sprint: position.shutdown && {
+                  start: formatDateISO(position.shutdown.start),
+                  end: formatDateISO(position.shutdown.end),
+                },
+                warnings: getHolidayDataWarnings(asOf, position.next.start, calendar),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'build_asana_date_fields': {
+        const calendar = parseCalendarArgs(args);
+        const timezone = resolveTimezone(calendar);
+        const timing = args?.timing as AsanaTiming | undefined;
+        if (timing !== undefined && timing !== 'all-day' && timing !== 'timed') {
+          throw new Error(`Invalid timing: ${timing}. Expected "all-day" or "timed"`);
+        }
+        const result = await buildAsanaDateFields(
+          {
+            start: args?.start as string | undefined,
+            due: args?.due as string | undefined,
+            durationWorkingDays: args?.duration_working_days as number | undefined,
+            timing,
+          },
+          calendar,
+          { sprint: parseSprintCadence(args), policy: args?.policy as string | undefined, dueHour: parseDueHour(args) }
+        );
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                fields: result.fields,
+                timing: result.timing,
+                policy: result.policy,
+                ...describeCalendar(calendar),
+                timezone,
+                start_date: result.startDay && formatDateISO(result.startDay),
+                due_date: formatDateISO(result.dueDay),
+                working_days: result.workingDays,
+                interpretation: result.interpretation,
+                warnings: [
+                  ...result.warnings,
+                  ...getHolidayDataWarnings(result.startDay || result.dueDay, result.dueDay, calendar),
+                ],
               }, null, 2),
             },
           ],
@@ -380,17 +1690,27 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'get_asana_due_date': {
-        const fromDate = args!.from_date ? parseDateInput(args!.from_date as string) : undefined;
-        const result = await getAsanaDueDate(fromDate);
+        const calendar = parseCalendarArgs(args);
+        const timezone = resolveTimezone(calendar);
+        const fromDate = args?.from_date ? parseDateInput(args.from_date as string, timezone) : undefined;
+        const result = await getAsanaDueDate(fromDate, calendar, {
+          policy: args?.policy as string | undefined,
+          dueHour: parseDueHour(args),
+        });
 
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
-                due_date: formatDateISO(result),
-                due_datetime: formatAsanaDate(result),
-                formatted: formatAsanaDisplayDate(result),
+                ...describeCalendar(calendar),
+                timezone,
+                policy: result.policy,
+                due_date: formatAsanaDay(result.dueDate, timezone),
+                due_datetime: formatAsanaDate(result.dueDate, timezone),
+                formatted: formatAsanaDisplayDate(result.dueDate, timezone),
+                interpretation: result.interpretation,
+                ...describeTrackerFields(args, result.dueDate, timezone),
               }, null, 2),
             },
           ],
@@ -398,8 +1718,15 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'parse_asana_date_request': {
+        const calendar = parseCalendarArgs(args);
+        const timezone = resolveTimezone(calendar);
         const request = args!.request as string;
-        const result = await parseAsanaDateRequest(request);
+        const sprint = parseSprintCadence(args);
+        const result = await parseAsanaDateRequest(request, calendar, {
+          sprint,
+          policy: args?.policy as string | undefined,
+          dueHour: parseDueHour(args),
+        });
 
         return {
           content: [
@@ -407,9 +1734,68 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               type: 'text',
               text: JSON.stringify({
                 request,
-                due_date: formatDateISO(result),
-                due_datetime: formatAsanaDate(result),
-                formatted: formatAsanaDisplayDate(result),
+                ...describeCalendar(calendar),
+                timezone,
+                policy: result.policy,
+                due_date: formatAsanaDay(result.dueDate, timezone),
+                due_datetime: formatAsanaDate(result.dueDate, timezone),
+                formatted: formatAsanaDisplayDate(result.dueDate, timezone),
+                ...describeTrackerFields(args, result.dueDate, timezone),
+                matched_pattern: result.parsed.pattern,
+                interpretation: result.interpretation,
+                confidence: result.parsed.confidence,
+                ambiguous: result.candidates.length > 1,
+                // Ask the user which one they meant before creating the task
+                candidates: result.candidates.length > 1
+                  ? result.candidates.map(candidate => ({
+                    due_date: formatAsanaDay(candidate.dueDate, timezone),
+                    due_datetime: formatAsanaDate(candidate.dueDate, timezone),
+                    formatted: formatAsanaDisplayDate(candidate.dueDate, timezone),
+                    fields: describeTrackerFields(args, candidate.dueDate, timezone).fields,
+                    interpretation: candidate.interpretation,
+                  }))
+                  : [],
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'batch_date_operations': {
+        const operations = args!.operations as Array<{ tool: string; arguments?: Record<string, unknown> }>;
+
+        if (!Array.isArray(operations) || operations.length === 0) {
+          throw new Error('operations must be a non-empty array of { tool, arguments }');
+        }
+        if (operations.length > MAX_BATCH_OPERATIONS) {
+          throw new Error(`Too many operations: ${operations.length} (maximum ${MAX_BATCH_OPERATIONS})`);
+        }
+
+        // Every item reads the same holiday cache; tools that would refresh it
+        // mid-batch are not allowed
+        const results = [];
+        for (const [index, operation] of operations.entries()) {
+          const tool = TOOL_ALIASES.get(operation?.tool) || operation?.tool;
+          if (!tool || BATCH_EXCLUDED_TOOLS.includes(tool)) {
+            results.push({ index, tool: operation?.tool, error: tool ? `${tool} cannot be used in a batch` : 'Missing tool name' });
+            continue;
+          }
+
+          const result = await handleToolCall(tool, operation.arguments || {});
+          const output = JSON.parse(result.content[0].text);
+          results.push(result.isError
+            ? { index, tool: operation.tool, error: output.error }
+            : { index, tool: operation.tool, result: output });
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                count: results.length,
+                failed: results.filter(result => 'error' in result).length,
+                results,
               }, null, 2),
             },
           ],
@@ -431,7 +1817,12 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       isError: true,
     };
   }
-});
+}
+
+// Handle tool execution
+server.setRequestHandler(CallToolRequestSchema, async (request) =>
+  handleToolCall(request.params.name, request.params.arguments)
+);
 
 // Start server
 async function main() {
@@ -0,0 +1,122 @@
+import { CalendarOptions } from './bankHolidays.js';
+import {
+  calculateWorkingDays,
+  getToday,
+  getWorkingDaysBetween,
+  resolveTimezone,
+  rollToWorkingDay,
+} from './dateCalculations.js';
+
+// Project planning in working days: phases laid end to end, skipping
+// weekends, public holidays and company closures across the whole chain.
+
+export interface PhaseInput {
+  name: string;
+  workingDays: number;
+  /** Working days of slack after the phase, before the next one starts */
+  bufferDays?: number;
+}
+
+export interface PlannedPhase {
+  name: string;
+  workingDays: number;
+  bufferDays: number;
+  /** First and last working day of the phase */
+  start: Date;
+  end: Date;
+  /** Last day of the buffer, when there is one */
+  bufferEnd: Date | null;
+  /** The phase should already have started */
+  inPast: boolean;
+  /** Working days between the start and today, when it is in the past */
+  workingDaysLate: number;
+}
+
+export interface BackwardPlan {
+  /** Last working day the final phase (and its buffer) may use */
+  finish: Date;
+  /** Start of the first phase: the latest the work can begin */
+  latestStart: Date;
+  phases: PlannedPhase[];
+  today: Date;
+  /** Every phase starts today or later */
+  feasible: boolean;
+}
+
+export const MAX_PHASES = 100;
+
+function validatePhases(phases: PhaseInput[]): void {
+  if (!Array.isArray(phases) || phases.length === 0) {
+    throw new Error('At least one phase is required');
+  }
+  if (phases.length > MAX_PHASES) {
+    throw new Error(`Too many phases: ${phases.length} (maximum ${MAX_PHASES})`);
+  }
+
+  phases.forEach((phase, index) => {
+    const label = phase?.name ? `"${phase.name}"` : `#${index + 1}`;
+    if (!phase || typeof phase.name !== 'string' || phase.name.trim() === '') {
+      throw new Error(`Phase ${label} needs a name`);
+    }
+    if (!Number.isInteger(phase.workingDays) || phase.workingDays < 1) {
+      throw new Error(`Phase ${label} has an invalid working_days: ${phase.workingDays}. Expected a whole number (1 or more)`);
+    }
+    if (phase.bufferDays !== undefined && (!Number.isInteger(phase.bufferDays) || phase.bufferDays < 0)) {
+      throw new Error(`Phase ${label} has an invalid buffer_days: ${phase.bufferDays}. Expected a whole number (0 or more)`);
+    }
+  });
+}
+
+/**
+ * Schedule phases (in delivery order) backwards from an end date, so the last
+ * one finishes by the end date. Each phase starts on a working day and lasts
+ * its working days; its buffer follows it. Phases that should already have
+ * started are flagged.
+ */
+export async function planBackwards(
+  endDate: Date,
+  phases: PhaseInput[],
+  calendar: CalendarOptions = {},
+  options: { includeEndDate?: boolean; today?: Date } = {}
+): Promise<BackwardPlan> {
+  validatePhases(phases);
+
+  const today = options.today || getToday(resolveTimezone(calendar));
+  const finish = options.includeEndDate === false
+    ? await calculateWorkingDays(endDate, 1, 'backward', calendar)
+    : await rollToWorkingDay(endDate, 'preceding', calendar);
+
+  const planned: PlannedPhase[] = [];
+  // Last working day still free for the phase being placed (and its buffer)
+  let cursor = finish;
+
+  for (const phase of [...phases].reverse()) {
+    const bufferDays = phase.bufferDays ?? 0;
+    const end = bufferDays > 0 ? await calculateWorkingDays(cursor, bufferDays, 'backward', calendar) : cursor;
+    const start = phase.workingDays > 1
+      ? await calculateWorkingDays(end, phase.workingDays - 1, 'backward', calendar)
+      : end;
+    const inPast = start < today;
+
+    planned.unshift({
+      name: phase.name,
+      workingDays: phase.workingDays,
+      bufferDays,
+      start,
+      end,
+      bufferEnd: bufferDays > 0 ? cursor : null,
+      inPast,
+      workingDaysLate: inPast ? await getWorkingDaysBetween(start, today, calendar, { includeEnd: false }) : 0,
+    });
+
+    cursor = await calculateWorkingDays(start, 1, 'backward', calendar);
+  }
+
+  return {
+    finish,
+    latestStart: planned[0].start,
+    phases: planned,
+    today,
+    feasible: planned.every(phase => !phase.inPast),
+  };
+}
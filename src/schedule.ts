@@ -0,0 +1,430 @@
+import { addDays, addMonths, addWeeks, addYears, format, getDay, getDaysInMonth, startOfMonth, startOfWeek } from 'date-fns';
+import { CalendarOptions } from './bankHolidays.js';
+import { adjustToWorkingDay, RollPolicy } from './dateCalculations.js';
+import { nthWorkingDayOfMonth, ORDINALS, WEEKDAYS } from './dateParser.js';
+
+// Recurring schedules from RFC 5545 RRULEs ("FREQ=MONTHLY;BYMONTHDAY=15") or
+// keyword rules ("last working day of each month", "every other Tuesday",
+// "15th of each month"), with every occurrence adjusted to a working day.
+
+export interface Recurrence {
+  source: 'rrule' | 'keyword';
+  freq: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  interval: number;
+  /** Weekdays (0 = Sunday); n is the nth in the month (-1 for the last) for monthly and yearly rules */
+  byDay: Array<{ weekday: number; n: number | null }>;
+  /** Days of the month, negative from the end */
+  byMonthDay: number[];
+  /** 1-based months */
+  byMonth: number[];
+  bySetPos: number[];
+  /** nth working day of each month, -1 for the last (keyword rules only) */
+  byWorkingDay: number | null;
+  count: number | null;
+  until: Date | null;
+  /** First day of the week for weekly intervals (0 = Sunday) */
+  weekStart: number;
+}
+
+/** A working-day convention, or 'skip' to drop occurrences on non-working days */
+export type ScheduleAdjustment = RollPolicy | 'skip';
+
+export interface ScheduleOccurrence {
+  date: Date;
+  /** Date the rule produced, before adjustment */
+  original: Date;
+  moved: boolean;
+  /** Why the original date is not a working day, when it moved */
+  reason: string | null;
+}
+
+export interface ScheduleOptions {
+  start: Date;
+  /** Last date the rule may produce (inclusive) */
+  end: Date;
+  /** Stop after this many occurrences of the rule */
+  count?: number;
+  adjustment?: ScheduleAdjustment;
+  calendar?: CalendarOptions;
+}
+
+export interface Schedule {
+  recurrence: Recurrence;
+  occurrences: ScheduleOccurrence[];
+  /** Occurrences dropped under 'skip', or moved onto a date already in the schedule */
+  skipped: Array<{ original: Date; reason: string }>;
+}
+
+export const MAX_OCCURRENCES = 500;
+const MAX_SCHEDULE_YEARS = 100;
+
+const RRULE_DAYS: Record<string, number> = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 };
+const RRULE_FREQS: Record<string, Recurrence['freq']> = { DAILY: 'daily', WEEKLY: 'weekly', MONTHLY: 'monthly', YEARLY: 'yearly' };
+const RRULE_PARTS = ['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'BYSETPOS', 'WKST'];
+
+const KEYWORD_EXAMPLES = '"last working day of each month", "every other Tuesday", "15th of each month", ' +
+  '"first Monday of every month", "every 2 weeks on Monday and Thursday", "quarterly on the 1st working day"';
+
+function emptyRecurrence(source: Recurrence['source'], freq: Recurrence['freq']): Recurrence {
+  return {
+    source, freq, interval: 1, byDay: [], byMonthDay: [], byMonth: [], bySetPos: [],
+    byWorkingDay: null, count: null, until: null, weekStart: 1,
+  };
+}
+
+function parseNumberList(value: string, part: string, min: number, max: number): number[] {
+  return value.split(',').map(item => {
+    const number = Number(item);
+    if (!Number.isInteger(number) || number === 0 || Math.abs(number) < min || Math.abs(number) > max) {
+      throw new Error(`Invalid ${part} value "${item}" in RRULE`);
+    }
+    return number;
+  });
+}
+
+function parseRRule(text: string): Recurrence {
+  const parts = new Map<string, string>();
+
+  for (const part of text.replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [key, value] = part.split('=');
+    const name = key.trim().toUpperCase();
+    if (!value) {
+      throw new Error(`Invalid RRULE part "${part}": expected NAME=VALUE`);
+    }
+    if (!RRULE_PARTS.includes(name)) {
+      throw new Error(`Unsupported RRULE part ${name}. Supported: ${RRULE_PARTS.join(', ')}`);
+    }
+    parts.set(name, value.trim().toUpperCase());
+  }
+
+  const freq = RRULE_FREQS[parts.get('FREQ') || ''];
+  if (!freq) {
+    throw new Error('RRULE needs FREQ=DAILY, WEEKLY, MONTHLY or YEARLY');
+  }
+
+  const recurrence = emptyRecurrence('rrule', freq);
+
+  if (parts.has('INTERVAL')) {
+    [recurrence.interval] = parseNumberList(parts.get('INTERVAL')!, 'INTERVAL', 1, 1000);
+    if (recurrence.interval < 0) throw new Error('INTERVAL must be positive');
+  }
+  if (parts.has('COUNT')) {
+    [recurrence.count] = parseNumberList(parts.get('COUNT')!, 'COUNT', 1, MAX_OCCURRENCES);
+    if (recurrence.count < 0) throw new Error('COUNT must be positive');
+  }
+  if (parts.has('UNTIL')) {
+    const match = parts.get('UNTIL')!.match(/^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/);
+    if (!match) {
+      throw new Error(`Invalid UNTIL "${parts.get('UNTIL')}": expected e.g. 20271231`);
+    }
+    recurrence.until = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  }
+  if (parts.has('BYDAY')) {
+    recurrence.byDay = parts.get('BYDAY')!.split(',').map(item => {
+      const match = item.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+      if (!match) {
+        throw new Error(`Invalid BYDAY value "${item}" in RRULE`);
+      }
+      const n = match[1] ? Number(match[1]) : null;
+      if (n !== null && (n === 0 || Math.abs(n) > 5 || (freq !== 'monthly' && freq !== 'yearly'))) {
+        throw new Error(`Invalid BYDAY value "${item}": numbered weekdays need FREQ=MONTHLY or YEARLY and 1-5 (or -1 to -5)`);
+      }
+      return { weekday: RRULE_DAYS[match[2]], n };
+    });
+  }
+  if (parts.has('BYMONTHDAY')) {
+    recurrence.byMonthDay = parseNumberList(parts.get('BYMONTHDAY')!, 'BYMONTHDAY', 1, 31);
+  }
+  if (parts.has('BYMONTH')) {
+    recurrence.byMonth = parseNumberList(parts.get('BYMONTH')!, 'BYMONTH', 1, 12);
+    if (recurrence.byMonth.some(month => month < 0)) throw new Error('BYMONTH values must be 1-12');
+  }
+  if (parts.has('BYSETPOS')) {
+    recurrence.bySetPos = parseNumberList(parts.get('BYSETPOS')!, 'BYSETPOS', 1, 366);
+  }
+  if (parts.has('WKST')) {
+    const weekStart = RRULE_DAYS[parts.get('WKST')!];
+    if (weekStart === undefined) throw new Error(`Invalid WKST "${parts.get('WKST')}"`);
+    recurrence.weekStart = weekStart;
+  }
+
+  if (freq === 'yearly' && recurrence.byMonth.length === 0 && recurrence.byDay.some(day => day.n !== null)) {
+    throw new Error('Numbered BYDAY in a YEARLY rule needs BYMONTH, e.g. FREQ=YEARLY;BYMONTH=5;BYDAY=-1MO');
+  }
+
+  return recurrence;
+}
+
+function parseWeekdayList(text: string): number[] | null {
+  const names = text.split(/\s*(?:,|\band\b)\s*/).filter(Boolean);
+  const days = names.map(name => WEEKDAYS[name.replace(/s$/, '')] ?? WEEKDAYS[name]);
+  return days.length > 0 && days.every(day => day !== undefined) ? days : null;
+}
+
+// Which days of the month "15th", "last day", "first Monday" or "2nd working day" means
+function parseDayOfMonth(text: string, recurrence: Recurrence): boolean {
+  let match = text.match(/^(?:day )?(\d{1,2})(?:st|nd|rd|th)?$/);
+  if (match && Number(match[1]) >= 1 && Number(match[1]) <= 31) {
+    recurrence.byMonthDay = [Number(match[1])];
+    return true;
+  }
+  if (text === 'last day') {
+    recurrence.byMonthDay = [-1];
+    return true;
+  }
+
+  const ordinals = Object.keys(ORDINALS).join('|');
+  match = text.match(new RegExp(`^(${ordinals}|\\d{1,2}(?:st|nd|rd|th)) (working|business) day$`));
+  if (match) {
+    recurrence.byWorkingDay = ORDINALS[match[1]] ?? parseInt(match[1], 10);
+    return true;
+  }
+
+  match = text.match(new RegExp(`^(${ordinals}) (\\w+)$`));
+  if (match && WEEKDAYS[match[2]] !== undefined) {
+    recurrence.byDay = [{ weekday: WEEKDAYS[match[2]], n: ORDINALS[match[1]] }];
+    return true;
+  }
+
+  return false;
+}
+
+function parseKeywordRule(rule: string): Recurrence | null {
+  const text = rule.toLowerCase().replace(/\bthe\b/g, ' ').replace(/\s+/g, ' ').trim();
+
+  if (/^(daily|every day)$/.test(text)) {
+    return emptyRecurrence('keyword', 'daily');
+  }
+  if (/^(yearly|annually|every year)$/.test(text)) {
+    return emptyRecurrence('keyword', 'yearly');
+  }
+
+  // Weekly: "every Tuesday", "every other Tuesday", "every 2 weeks on Mon and Thu", "weekly", "fortnightly on Friday"
+  let match = text.match(/^every (other |\d+ weeks on )?([a-z ,]+)$/);
+  const weekly = match && parseWeekdayList(match[2]);
+  if (match && weekly) {
+    const recurrence = emptyRecurrence('keyword', 'weekly');
+    recurrence.interval = match[1] === 'other ' ? 2 : match[1] ? parseInt(match[1], 10) : 1;
+    recurrence.byDay = weekly.map(weekday => ({ weekday, n: null }));
+    return recurrence;
+  }
+  match = text.match(/^(weekly|every week|fortnightly|biweekly|every (\d+) weeks)(?: on ([a-z ,]+))?$/);
+  if (match) {
+    const recurrence = emptyRecurrence('keyword', 'weekly');
+    recurrence.interval = match[2] ? Number(match[2]) : /fortnightly|biweekly/.test(match[1]) ? 2 : 1;
+    if (match[3]) {
+      const days = parseWeekdayList(match[3]);
+      if (!days) return null;
+      recurrence.byDay = days.map(weekday => ({ weekday, n: null }));
+    }
+    return recurrence;
+  }
+
+  // Monthly: "monthly on the 15th", "quarterly", "last working day of each month", "first Monday of every other month"
+  let what: string | undefined;
+  let interval = 1;
+  match = text.match(/^(monthly|quarterly)(?: on (.+))?$/);
+  if (match) {
+    what = match[2];
+    interval = match[1] === 'quarterly' ? 3 : 1;
+  } else {
+    match = text.match(/^(.+?) of (?:each|every) (?:(other|\d+) )?(months?|quarters?)$/);
+    if (!match) return null;
+    what = match[1];
+    interval = (match[2] === 'other' ? 2 : match[2] ? Number(match[2]) : 1) * (match[3].startsWith('quarter') ? 3 : 1);
+  }
+
+  const recurrence = emptyRecurrence('keyword', 'monthly');
+  recurrence.interval = interval;
+  if (what !== undefined && !parseDayOfMonth(what.trim(), recurrence)) {
+    return null;
+  }
+  return recurrence;
+}
+
+/**
+ * Read an RRULE ("FREQ=...", optionally prefixed "RRULE:") or a keyword rule
+ */
+export function parseRecurrence(rule: string): Recurrence {
+  const text = rule.trim();
+  if (/^(RRULE:)?FREQ=|;/i.test(text)) {
+    return parseRRule(text);
+  }
+
+  const recurrence = parseKeywordRule(text);
+  if (!recurrence) {
+    throw new Error(`Could not understand the rule "${rule}". Use an RRULE (e.g. "FREQ=MONTHLY;BYMONTHDAY=15") or e.g. ${KEYWORD_EXAMPLES}`);
+  }
+  return recurrence;
+}
+
+// Day of the month for a possibly negative BYMONTHDAY, or null if the month is too short
+function monthDay(monthStart: Date, day: number): Date | null {
+  const length = getDaysInMonth(monthStart);
+  const resolved = day > 0 ? day : length + day + 1;
+  return resolved >= 1 && resolved <= length ? addDays(monthStart, resolved - 1) : null;
+}
+
+function weekdaysInMonth(monthStart: Date, weekday: number): Date[] {
+  const first = addDays(monthStart, (weekday - getDay(monthStart) + 7) % 7);
+  const days: Date[] = [];
+  for (let date = first; date.getMonth() === monthStart.getMonth(); date = addWeeks(date, 1)) {
+    days.push(date);
+  }
+  return days;
+}
+
+// Candidate dates in one month of a monthly or yearly rule
+async function datesInMonth(
+  recurrence: Recurrence,
+  monthStart: Date,
+  start: Date,
+  calendar: CalendarOptions
+): Promise<Date[]> {
+  if (recurrence.byWorkingDay !== null) {
+    const date = await nthWorkingDayOfMonth(monthStart, recurrence.byWorkingDay, calendar);
+    return date ? [date] : [];
+  }
+
+  const fromMonthDays = recurrence.byMonthDay
+    .map(day => monthDay(monthStart, day))
+    .filter((date): date is Date => date !== null);
+  const fromWeekdays = recurrence.byDay.flatMap(({ weekday, n }) => {
+    const days = weekdaysInMonth(monthStart, weekday);
+    if (n === null) return days;
+    const date = n > 0 ? days[n - 1] : days[days.length + n];
+    return date ? [date] : [];
+  });
+
+  if (recurrence.byMonthDay.length > 0 && recurrence.byDay.length > 0) {
+    // Both given: BYDAY narrows BYMONTHDAY, e.g. Friday the 13th
+    return fromMonthDays.filter(date => fromWeekdays.some(other => other.getTime() === date.getTime()));
+  }
+  if (recurrence.byMonthDay.length > 0) return fromMonthDays;
+  if (recurrence.byDay.length > 0) return fromWeekdays;
+
+  // Neither: the start date's day of the month, skipping months that are too short
+  const date = monthDay(monthStart, start.getDate());
+  return date && date.getDate() === start.getDate() ? [date] : [];
+}
+
+// Candidate dates in the nth period (day, week, month or year) of a rule
+async function datesInPeriod(
+  recurrence: Recurrence,
+  period: number,
+  start: Date,
+  calendar: CalendarOptions
+): Promise<{ periodStart: Date; dates: Date[] }> {
+  const step = period * recurrence.interval;
+  const inMonths = (date: Date) => recurrence.byMonth.length === 0 || recurrence.byMonth.includes(date.getMonth() + 1);
+  let periodStart: Date;
+  let dates: Date[];
+
+  switch (recurrence.freq) {
+    case 'daily': {
+      periodStart = addDays(start, step);
+      const day = periodStart;
+      const matches = inMonths(day) &&
+        (recurrence.byDay.length === 0 || recurrence.byDay.some(({ weekday }) => weekday === getDay(day))) &&
+        (recurrence.byMonthDay.length === 0 || recurrence.byMonthDay.some(value => monthDay(startOfMonth(day), value)?.getTime() === day.getTime()));
+      dates = matches ? [day] : [];
+      break;
+    }
+    case 'weekly': {
+      periodStart = addWeeks(startOfWeek(start, { weekStartsOn: recurrence.weekStart as 0 | 1 | 2 | 3 | 4 | 5 | 6 }), step);
+      const weekdays = recurrence.byDay.length > 0 ? recurrence.byDay.map(day => day.weekday) : [getDay(start)];
+      dates = [0, 1, 2, 3, 4, 5, 6]
+        .map(offset => addDays(periodStart, offset))
+        .filter(date => weekdays.includes(getDay(date)) && inMonths(date));
+      break;
+    }
+    case 'monthly': {
+      periodStart = addMonths(startOfMonth(start), step);
+      dates = inMonths(periodStart) ? await datesInMonth(recurrence, periodStart, start, calendar) : [];
+      break;
+    }
+    case 'yearly': {
+      periodStart = addYears(new Date(start.getFullYear(), 0, 1), step);
+      const months = recurrence.byMonth.length > 0 ? recurrence.byMonth : [start.getMonth() + 1];
+      const yearly = recurrence.byMonthDay.length === 0 && recurrence.byDay.length === 0 && recurrence.byWorkingDay === null;
+      dates = [];
+      for (const month of months) {
+        const monthStart = new Date(periodStart.getFullYear(), month - 1, 1);
+        // A plain yearly rule repeats the start date, e.g. every 29 February only in leap years
+        dates.push(...(yearly
+          ? [monthDay(monthStart, start.getDate())].filter((date): date is Date => date !== null && date.getDate() === start.getDate())
+          : await datesInMonth(recurrence, monthStart, start, calendar)));
+      }
+      break;
+    }
+  }
+
+  dates.sort((a, b) => a.getTime() - b.getTime());
+  if (recurrence.bySetPos.length > 0) {
+    dates = recurrence.bySetPos
+      .map(position => position > 0 ? dates[position - 1] : dates[dates.length + position])
+      .filter((date): date is Date => date !== undefined)
+      .sort((a, b) => a.getTime() - b.getTime());
+  }
+
+  return { periodStart, dates };
+}
+
+/**
+ * Occurrences of a rule from start to end (inclusive), each adjusted to a
+ * working day: moved by a roll convention, or dropped with 'skip'
+ */
+export async function generateSchedule(rule: string, options: ScheduleOptions): Promise<Schedule> {
+  const recurrence = parseRecurrence(rule);
+  const calendar = options.calendar || {};
+  const adjustment = options.adjustment || 'following';
+  const end = recurrence.until && recurrence.until < options.end ? recurrence.until : options.end;
+  const limit = Math.min(options.count ?? Infinity, recurrence.count ?? Infinity);
+
+  if (end > addYears(options.start, MAX_SCHEDULE_YEARS)) {
+    throw new Error(`Schedule too long: the end date must be within ${MAX_SCHEDULE_YEARS} years of the start date`);
+  }
+
+  const raw: Date[] = [];
+  for (let period = 0; raw.length < limit; period++) {
+    const { periodStart, dates } = await datesInPeriod(recurrence, period, options.start, calendar);
+    if (periodStart > end) break;
+
+    for (const date of dates) {
+      if (date < options.start || date > end || raw.length >= limit) continue;
+      if (raw.length >= MAX_OCCURRENCES) {
+        throw new Error(`Too many occurrences (more than ${MAX_OCCURRENCES}): use an earlier end date or a count`);
+      }
+      raw.push(date);
+    }
+  }
+
+  const occurrences: ScheduleOccurrence[] = [];
+  const skipped: Schedule['skipped'] = [];
+  const taken = new Set<string>();
+
+  for (const original of raw) {
+    const adjusted = await adjustToWorkingDay(original, adjustment === 'skip' ? 'none' : adjustment, calendar);
+
+    if (adjustment === 'skip' && !adjusted.status.working) {
+      skipped.push({ original, reason: adjusted.status.reason });
+      continue;
+    }
+
+    const key = format(adjusted.date, 'yyyy-MM-dd');
+    if (taken.has(key)) {
+      skipped.push({ original, reason: `Moves to ${key}, which is already in the schedule` });
+      continue;
+    }
+    taken.add(key);
+
+    occurrences.push({
+      date: adjusted.date,
+      original,
+      moved: adjusted.moved,
+      reason: adjusted.moved ? adjusted.status.reason : null,
+    });
+  }
+
+  return { recurrence, occurrences, skipped };
+}
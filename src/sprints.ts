@@ -0,0 +1,210 @@
+import { addDays, addWeeks, addYears, getDay, parseISO, subDays } from 'date-fns';
+import { CalendarOptions, Holiday } from './bankHolidays.js';
+import { explainDay } from './dateCalculations.js';
+
+// Sprint cadence: fixed-length sprints counted from the first sprint, each
+// starting on the same weekday. A sprint that would overlap a shutdown (e.g.
+// the Christmas closure) is not run: the cadence pauses and the next sprint
+// starts on the first sprint weekday after the shutdown.
+
+/** Inclusive date range: yyyy-MM-dd, or MM-dd to repeat every year (may wrap past 31 December) */
+export interface Shutdown {
+  from: string;
+  to: string;
+}
+
+export interface SprintCadence {
+  firstSprintStart: Date;
+  lengthWeeks: number;
+  /** Weekday sprints start on (0 = Sunday). Default: the first sprint's weekday */
+  startWeekday?: number;
+  shutdowns?: Shutdown[];
+}
+
+export interface Sprint {
+  number: number;
+  start: Date;
+  /** Day before the next sprint would start */
+  end: Date;
+}
+
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+export interface SprintPosition {
+  status: 'before-first-sprint' | 'in-sprint' | 'between-sprints';
+  /** Sprint containing the date */
+  sprint: Sprint | null;
+  previous: Sprint | null;
+  next: Sprint;
+  /** Shutdown that paused the cadence before the next sprint, if any */
+  shutdown: DateRange | null;
+}
+
+export interface SprintProgress {
+  workingDays: number;
+  /** Working days before the date */
+  workingDaysElapsed: number;
+  /** Working days from the date to the end of the sprint, inclusive */
+  workingDaysRemaining: number;
+  firstWorkingDay: Date | null;
+  lastWorkingDay: Date | null;
+  /** Public holidays (days off) within the sprint */
+  holidays: Holiday[];
+}
+
+const MAX_SPRINT_YEARS = 100;
+const FULL_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const ANNUAL_DATE = /^\d{2}-\d{2}$/;
+
+/**
+ * Read a shutdown written as "from/to", e.g. "12-24/01-01" or "2026-12-21/2027-01-01"
+ */
+export function parseShutdown(text: string): Shutdown {
+  const [from, to] = text.split('/').map(part => part.trim());
+  const valid = (value: string | undefined) => value !== undefined && (FULL_DATE.test(value) || ANNUAL_DATE.test(value));
+
+  if (!valid(from) || !valid(to) || FULL_DATE.test(from) !== FULL_DATE.test(to)) {
+    throw new Error(`Invalid shutdown "${text}": expected MM-DD/MM-DD (every year) or YYYY-MM-DD/YYYY-MM-DD`);
+  }
+  if (FULL_DATE.test(from) && from > to) {
+    throw new Error(`Invalid shutdown "${text}": ends before it starts`);
+  }
+  return { from, to };
+}
+
+// Shutdown dates that could overlap a year (annual ones from the year before may run into it)
+function shutdownRanges(shutdowns: Shutdown[], year: number): DateRange[] {
+  return shutdowns.flatMap(({ from, to }) => {
+    if (FULL_DATE.test(from)) {
+      return [{ start: parseISO(from), end: parseISO(to) }];
+    }
+    return [year - 1, year].map(first => ({
+      start: parseISO(`${first}-${from}`),
+      end: parseISO(`${to < from ? first + 1 : first}-${to}`),
+    }));
+  });
+}
+
+function overlappingShutdown(shutdowns: Shutdown[], start: Date, end: Date): DateRange | null {
+  const ranges = [];
+  for (let year = start.getFullYear(); year <= end.getFullYear() + 1; year++) {
+    ranges.push(...shutdownRanges(shutdowns, year));
+  }
+  return ranges
+    .filter(range => range.start <= end && range.end >= start)
+    .sort((a, b) => a.start.getTime() - b.start.getTime())[0] || null;
+}
+
+// First date on or after a date that falls on a weekday
+function onOrAfterWeekday(date: Date, weekday: number): Date {
+  return addDays(date, (weekday - getDay(date) + 7) % 7);
+}
+
+/**
+ * Calendar dates of one sprint from its start date
+ */
+export function calculateSprintDates(startDate: Date, sprintLengthWeeks: number): {
+  start: Date;
+  end: Date;
+  length: number;
+} {
+  const start = new Date(startDate);
+  const end = addWeeks(start, sprintLengthWeeks);
+  const endAdjusted = subDays(end, 1); // Sprint ends day before next sprint starts
+
+  return {
+    start,
+    end: endAdjusted,
+    length: sprintLengthWeeks
+  };
+}
+
+/**
+ * Where a date falls in a sprint cadence: in a sprint, before the first one,
+ * or in a gap left by a shutdown, plus the sprints either side
+ */
+export function locateSprint(cadence: SprintCadence, date: Date): SprintPosition {
+  const { lengthWeeks, shutdowns = [] } = cadence;
+  if (!Number.isInteger(lengthWeeks) || lengthWeeks < 1) {
+    throw new Error(`Invalid sprint length: ${lengthWeeks}. Expected a whole number of weeks`);
+  }
+
+  const weekday = cadence.startWeekday ?? getDay(cadence.firstSprintStart);
+  const limit = addYears(cadence.firstSprintStart, MAX_SPRINT_YEARS);
+  if (date > limit) {
+    throw new Error(`Date too far from the first sprint (maximum ${MAX_SPRINT_YEARS} years)`);
+  }
+
+  // The first sprint starting on or after a date, after any shutdowns it would overlap
+  const sprintFrom = (from: Date, number: number): { sprint: Sprint; shutdown: DateRange | null } => {
+    let start = onOrAfterWeekday(from, weekday);
+    let shutdown: DateRange | null = null;
+
+    for (;;) {
+      if (start > limit) {
+        throw new Error(`No sprint within ${MAX_SPRINT_YEARS} years of the first sprint: check the shutdowns`);
+      }
+      const end = addDays(start, lengthWeeks * 7 - 1);
+      const overlap = overlappingShutdown(shutdowns, start, end);
+      if (!overlap) {
+        return { sprint: { number, start, end }, shutdown };
+      }
+      shutdown = overlap;
+      start = onOrAfterWeekday(addDays(overlap.end, 1), weekday);
+    }
+  };
+
+  let previous: Sprint | null = null;
+  let current = sprintFrom(cadence.firstSprintStart, 1);
+
+  for (;;) {
+    const { sprint, shutdown } = current;
+    if (date < sprint.start) {
+      return { status: previous ? 'between-sprints' : 'before-first-sprint', sprint: null, previous, next: sprint, shutdown };
+    }
+
+    const next = sprintFrom(addDays(sprint.end, 1), sprint.number + 1);
+    if (date <= sprint.end) {
+      return { status: 'in-sprint', sprint, previous, next: next.sprint, shutdown: next.shutdown };
+    }
+    previous = sprint;
+    current = next;
+  }
+}
+
+/**
+ * Working days in a sprint and how many are left on a date, with the
+ * public holidays that fall inside it
+ */
+export async function getSprintProgress(
+  sprint: DateRange,
+  date: Date,
+  calendar: CalendarOptions = {}
+): Promise<SprintProgress> {
+  const holidays: Holiday[] = [];
+  const working: Date[] = [];
+
+  for (let day = sprint.start; day <= sprint.end; day = addDays(day, 1)) {
+    const status = await explainDay(day, calendar);
+    if (status.working) {
+      working.push(day);
+    }
+    if (status.holiday && status.holiday.type !== 'observance') {
+      holidays.push(status.holiday);
+    }
+  }
+
+  const workingDaysRemaining = working.filter(day => day >= date).length;
+
+  return {
+    workingDays: working.length,
+    workingDaysElapsed: working.length - workingDaysRemaining,
+    workingDaysRemaining,
+    firstWorkingDay: working[0] || null,
+    lastWorkingDay: working[working.length - 1] || null,
+    holidays,
+  };
+}
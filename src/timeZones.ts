@@ -0,0 +1,146 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { formatInTimeZone, zonedTimeToUtc } from 'date-fns-tz';
+import { resolveCalendar, CalendarOptions } from './bankHolidays.js';
+import { explainDay, resolveTimezone, DayStatus } from './dateCalculations.js';
+import { getWorkingPeriods, WorkingHours } from './workingHours.js';
+
+// Time conversion and meeting windows across offices. A zone is either a
+// country code ("NZ", "US-NY") or an IANA timezone ("America/Chicago").
+
+export interface ZoneTime {
+  zone: string;
+  timezone: string;
+  /** Local calendar date of the instant */
+  date: Date;
+  /** e.g. "+13:00" */
+  utcOffset: string;
+  /** Calendar days ahead of (or behind) the source zone */
+  dayOffset: number;
+}
+
+export interface Participant {
+  label: string;
+  calendar: CalendarOptions;
+  timezone: string;
+  workingHours: WorkingHours;
+}
+
+export interface OverlapWindow {
+  start: Date;
+  end: Date;
+}
+
+export interface ParticipantDayOff {
+  participant: string;
+  status: DayStatus;
+}
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+/**
+ * Calendar options for a zone: "UTC" or anything containing "/" is a
+ * timezone, everything else a country code with an optional region
+ */
+export function parseZone(zone: string): CalendarOptions {
+  if (zone.includes('/') || zone.toUpperCase() === 'UTC') {
+    return { timezone: zone };
+  }
+
+  const [country] = zone.toUpperCase().split('-');
+  const calendar = { country, region: zone.includes('-') ? zone : undefined };
+
+  // Throws for unknown countries and regions
+  resolveCalendar(calendar);
+  return calendar;
+}
+
+/**
+ * Calendar date an instant falls on in a timezone (local midnight)
+ */
+export function localDate(instant: Date, timezone: string): Date {
+  return parseISO(formatInTimeZone(instant, timezone, 'yyyy-MM-dd'));
+}
+
+/**
+ * The same instant in several zones, with how many days each is ahead of the source
+ */
+export function convertTime(instant: Date, fromTimezone: string, zones: string[]): ZoneTime[] {
+  const sourceDate = localDate(instant, fromTimezone);
+
+  return zones.map(zone => {
+    const timezone = resolveTimezone(parseZone(zone));
+    const date = localDate(instant, timezone);
+    return {
+      zone,
+      timezone,
+      date,
+      utcOffset: formatInTimeZone(instant, timezone, 'xxx'),
+      dayOffset: differenceInCalendarDays(date, sourceDate),
+    };
+  });
+}
+
+function intersect(a: Interval[], b: Interval[]): Interval[] {
+  const result: Interval[] = [];
+  for (const first of a) {
+    for (const second of b) {
+      const start = Math.max(first.start, second.start);
+      const end = Math.min(first.end, second.end);
+      if (end > start) {
+        result.push({ start, end });
+      }
+    }
+  }
+  return result.sort((x, y) => x.start - y.start);
+}
+
+/**
+ * Windows on a date when every participant is within working hours. The date
+ * is read in the first participant's timezone; each participant's own
+ * weekends, holidays and company closures remove their hours.
+ */
+export async function findOverlapWindows(
+  date: Date,
+  participants: Participant[]
+): Promise<{ windows: OverlapWindow[]; daysOff: ParticipantDayOff[] }> {
+  if (participants.length < 2) {
+    throw new Error('At least two participants are needed to find an overlap');
+  }
+
+  const reference = participants[0].timezone;
+  const span: Interval = {
+    start: zonedTimeToUtc(format(date, 'yyyy-MM-dd'), reference).getTime(),
+    end: zonedTimeToUtc(format(addDays(date, 1), 'yyyy-MM-dd'), reference).getTime(),
+  };
+
+  let windows: Interval[] = [span];
+  const daysOff: ParticipantDayOff[] = [];
+
+  for (const participant of participants) {
+    // The reference day covers one or two local dates for this participant
+    const first = localDate(new Date(span.start), participant.timezone);
+    const last = localDate(new Date(span.end - 1), participant.timezone);
+    const available: Interval[] = [];
+
+    for (let day = first; day <= last; day = addDays(day, 1)) {
+      const status = await explainDay(day, participant.calendar);
+      if (!status.working) {
+        daysOff.push({ participant: participant.label, status });
+        continue;
+      }
+      for (const period of getWorkingPeriods(day, participant.timezone, participant.workingHours)) {
+        available.push({ start: period.start.getTime(), end: period.end.getTime() });
+      }
+    }
+
+    windows = intersect(windows, available);
+  }
+
+  return {
+    windows: windows.map(window => ({ start: new Date(window.start), end: new Date(window.end) })),
+    daysOff,
+  };
+}
@@ -0,0 +1,345 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { CalendarOptions, resolveCalendar } from './bankHolidays.js';
+import {
+  calculateWorkingDays,
+  explainDay,
+  getWorkingDaysBetween,
+  isWorkingDay,
+  rollToWorkingDay,
+} from './dateCalculations.js';
+
+// Forward-scheduled project timeline (critical path method) in working days.
+// Each task is worked on its assignee's calendar: their country's weekends
+// and public holidays, the company calendar and their annual leave. A task
+// starts on the first day its assignee is available after every dependency
+// has finished (finish-to-start). People are not levelled: one person's
+// tasks may overlap.
+
+export interface Person {
+  name: string;
+  calendar: CalendarOptions;
+  /** Days off: yyyy-MM-dd, or yyyy-MM-dd/yyyy-MM-dd ranges */
+  leave?: string[];
+}
+
+export interface TimelineTask {
+  id: string;
+  name?: string;
+  workingDays: number;
+  dependsOn?: string[];
+  /** Person name; unassigned tasks use the default calendar */
+  assignee?: string;
+}
+
+export interface TaskDelay {
+  date: Date;
+  source: 'leave' | 'public-holiday' | 'company-closure';
+  reason: string;
+}
+
+export interface ScheduledTask {
+  id: string;
+  name: string;
+  assignee: string | null;
+  workingDays: number;
+  dependsOn: string[];
+  earliestStart: Date;
+  earliestFinish: Date;
+  latestStart: Date;
+  latestFinish: Date;
+  /** Working days (on the assignee's calendar) the start can slip without moving the project finish */
+  floatDays: number;
+  critical: boolean;
+  /** Dependency whose finish set the earliest start, or null for the project start */
+  drivenBy: string | null;
+  /** Working-week days the task could not use, from its earliest possible start to its finish */
+  delays: TaskDelay[];
+}
+
+export interface TaskOverlap {
+  assignee: string;
+  /** Two tasks the assignee is booked on at the same time */
+  tasks: [string, string];
+}
+
+export interface Timeline {
+  start: Date;
+  finish: Date;
+  tasks: ScheduledTask[];
+  /** Task ids from the start of the chain that finishes last to its end, following each driven_by */
+  criticalPath: string[];
+  /** Tasks are not levelled: anyone booked on two tasks at once */
+  overlaps: TaskOverlap[];
+}
+
+export const MAX_TIMELINE_TASKS = 200;
+const MAX_LEAVE_RANGE_DAYS = 366;
+
+interface Worker {
+  label: string | null;
+  calendar: CalendarOptions;
+  leave: Set<string>;
+}
+
+function iso(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+function expandLeave(person: Person): Set<string> {
+  const days = new Set<string>();
+
+  for (const entry of person.leave || []) {
+    const [from, to = from] = entry.split('/').map(part => part.trim());
+    const start = parseISO(from);
+    const end = parseISO(to);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(from) || !/^\d{4}-\d{2}-\d{2}$/.test(to) || isNaN(start.getTime()) || isNaN(end.getTime()) || end < start) {
+      throw new Error(`Invalid leave "${entry}" for ${person.name}: expected YYYY-MM-DD or YYYY-MM-DD/YYYY-MM-DD`);
+    }
+    if ((end.getTime() - start.getTime()) / 86400000 > MAX_LEAVE_RANGE_DAYS) {
+      throw new Error(`Leave "${entry}" for ${person.name} is longer than ${MAX_LEAVE_RANGE_DAYS} days`);
+    }
+    for (let day = start; day <= end; day = addDays(day, 1)) {
+      days.add(iso(day));
+    }
+  }
+
+  return days;
+}
+
+// Tasks ordered so that every dependency comes before the tasks that need it
+function orderTasks(tasks: TimelineTask[]): TimelineTask[] {
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  const ordered: TimelineTask[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (task: TimelineTask, path: string[]) => {
+    if (state.get(task.id) === 'done') return;
+    if (state.get(task.id) === 'visiting') {
+      throw new Error(`Circular dependency: ${[...path.slice(path.indexOf(task.id)), task.id].join(' → ')}`);
+    }
+    state.set(task.id, 'visiting');
+    for (const dependency of task.dependsOn || []) {
+      const required = byId.get(dependency);
+      if (!required) {
+        throw new Error(`Task "${task.id}" depends on unknown task "${dependency}"`);
+      }
+      visit(required, [...path, task.id]);
+    }
+    state.set(task.id, 'done');
+    ordered.push(task);
+  };
+
+  tasks.forEach(task => visit(task, []));
+  return ordered;
+}
+
+function validateTasks(tasks: TimelineTask[], people: Map<string, Person>): void {
+  if (!Array.isArray(tasks) || tasks.length === 0) {
+    throw new Error('At least one task is required');
+  }
+  if (tasks.length > MAX_TIMELINE_TASKS) {
+    throw new Error(`Too many tasks: ${tasks.length} (maximum ${MAX_TIMELINE_TASKS})`);
+  }
+
+  const ids = new Set<string>();
+  tasks.forEach((task, index) => {
+    if (!task || typeof task.id !== 'string' || task.id.trim() === '') {
+      throw new Error(`Task #${index + 1} needs an id`);
+    }
+    if (ids.has(task.id)) {
+      throw new Error(`Duplicate task id "${task.id}"`);
+    }
+    ids.add(task.id);
+    if (!Number.isInteger(task.workingDays) || task.workingDays < 1) {
+      throw new Error(`Task "${task.id}" has an invalid working_days: ${task.workingDays}. Expected a whole number (1 or more)`);
+    }
+    if (task.assignee !== undefined && !people.has(task.assignee)) {
+      throw new Error(`Task "${task.id}" is assigned to unknown person "${task.assignee}"`);
+    }
+  });
+}
+
+// First available day on or after (step 1) or on or before (step -1) a date
+async function nearestAvailable(worker: Worker, date: Date, step: 1 | -1): Promise<Date> {
+  let day = await rollToWorkingDay(date, step === 1 ? 'following' : 'preceding', worker.calendar);
+  while (worker.leave.has(iso(day))) {
+    day = await calculateWorkingDays(day, 1, step === 1 ? 'forward' : 'backward', worker.calendar);
+  }
+  return day;
+}
+
+// The nth available day from an available day (counting it as the first),
+// forwards or backwards: working days, then extended past any leave
+async function spanAvailable(worker: Worker, from: Date, n: number, step: 1 | -1): Promise<Date> {
+  let end = from;
+  let remaining = n - 1;
+
+  while (remaining > 0) {
+    const previous = end;
+    end = await calculateWorkingDays(end, remaining, step === 1 ? 'forward' : 'backward', worker.calendar);
+    // Leave on the working days just covered doesn't count: go that many further
+    remaining = 0;
+    for (const day of worker.leave) {
+      const date = parseISO(day);
+      const covered = step === 1 ? date > previous && date <= end : date < previous && date >= end;
+      if (covered && await isWorkingDay(date, worker.calendar)) remaining++;
+    }
+  }
+
+  return end;
+}
+
+// Available days from one date up to (not including) another
+async function countAvailable(worker: Worker, from: Date, to: Date): Promise<number> {
+  if (to <= from) return 0;
+  let count = await getWorkingDaysBetween(from, to, worker.calendar, { includeEnd: false });
+  for (const day of worker.leave) {
+    const date = parseISO(day);
+    if (date >= from && date < to && await isWorkingDay(date, worker.calendar)) count--;
+  }
+  return count;
+}
+
+// Days in the worker's week that a task could not use between two dates, and why
+async function findDelays(worker: Worker, from: Date, to: Date): Promise<TaskDelay[]> {
+  const delays: TaskDelay[] = [];
+  const { country } = resolveCalendar(worker.calendar);
+
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    const status = await explainDay(day, worker.calendar);
+    if (status.working && worker.leave.has(iso(day))) {
+      delays.push({ date: day, source: 'leave', reason: `${worker.label} on leave` });
+    } else if (status.source === 'public-holiday') {
+      delays.push({ date: day, source: 'public-holiday', reason: `${status.reason} (${country} public holiday)` });
+    } else if (status.source === 'company-closure') {
+      delays.push({ date: day, source: 'company-closure', reason: status.reason });
+    }
+  }
+
+  return delays;
+}
+
+// The dependency chain behind the project finish: from the task that finishes
+// last back through the dependency that set each start
+function tracePath(tasks: ScheduledTask[], finish: Date): string[] {
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  const path: string[] = [];
+  let task = [...tasks].reverse().find(candidate => candidate.earliestFinish.getTime() === finish.getTime());
+
+  while (task) {
+    path.unshift(task.id);
+    task = task.drivenBy ? byId.get(task.drivenBy) : undefined;
+  }
+  return path;
+}
+
+// Pairs of tasks with the same assignee whose dates overlap
+function findOverlaps(tasks: ScheduledTask[]): TaskOverlap[] {
+  const overlaps: TaskOverlap[] = [];
+
+  tasks.forEach((task, index) => {
+    for (const other of tasks.slice(index + 1)) {
+      if (task.assignee && task.assignee === other.assignee &&
+          task.earliestStart <= other.earliestFinish && other.earliestStart <= task.earliestFinish) {
+        overlaps.push({ assignee: task.assignee, tasks: [task.id, other.id] });
+      }
+    }
+  });
+  return overlaps;
+}
+
+/**
+ * Schedule tasks forward from a start date: earliest start and finish on
+ * each assignee's calendar, latest start and finish that keep the project
+ * finish, float, the critical path, the leave and holidays that pushed
+ * each task, and anyone booked on two tasks at once
+ */
+export async function scheduleTimeline(
+  tasks: TimelineTask[],
+  people: Person[],
+  options: { start: Date; calendar?: CalendarOptions }
+): Promise<Timeline> {
+  const peopleByName = new Map<string, Person>();
+  for (const person of people) {
+    if (!person || typeof person.name !== 'string' || person.name.trim() === '') {
+      throw new Error('Every person needs a name');
+    }
+    if (peopleByName.has(person.name)) {
+      throw new Error(`Duplicate person "${person.name}"`);
+    }
+    peopleByName.set(person.name, person);
+  }
+  validateTasks(tasks, peopleByName);
+
+  const workers = new Map<string | null, Worker>([[null, { label: null, calendar: options.calendar || {}, leave: new Set() }]]);
+  for (const person of people) {
+    // Throws for unknown countries and regions
+    resolveCalendar(person.calendar);
+    workers.set(person.name, { label: person.name, calendar: person.calendar, leave: expandLeave(person) });
+  }
+  const workerFor = (task: TimelineTask) => workers.get(task.assignee ?? null)!;
+
+  const ordered = orderTasks(tasks);
+  const scheduled = new Map<string, ScheduledTask>();
+
+  // Forward pass: earliest dates
+  for (const task of ordered) {
+    const worker = workerFor(task);
+    let ready = options.start;
+    let drivenBy: string | null = null;
+    for (const dependency of task.dependsOn || []) {
+      const after = addDays(scheduled.get(dependency)!.earliestFinish, 1);
+      if (after > ready) {
+        ready = after;
+        drivenBy = dependency;
+      }
+    }
+
+    const earliestStart = await nearestAvailable(worker, ready, 1);
+    const earliestFinish = await spanAvailable(worker, earliestStart, task.workingDays, 1);
+
+    scheduled.set(task.id, {
+      id: task.id,
+      name: task.name || task.id,
+      assignee: task.assignee ?? null,
+      workingDays: task.workingDays,
+      dependsOn: task.dependsOn || [],
+      earliestStart,
+      earliestFinish,
+      latestStart: earliestStart,
+      latestFinish: earliestFinish,
+      floatDays: 0,
+      critical: false,
+      drivenBy,
+      delays: await findDelays(worker, ready, earliestFinish),
+    });
+  }
+
+  const finish = new Date(Math.max(...[...scheduled.values()].map(task => task.earliestFinish.getTime())));
+
+  // Backward pass: latest dates that still finish by the project finish
+  for (const task of [...ordered].reverse()) {
+    const worker = workerFor(task);
+    const entry = scheduled.get(task.id)!;
+    let deadline = finish;
+    for (const successor of scheduled.values()) {
+      if (successor.dependsOn.includes(task.id) && addDays(successor.latestStart, -1) < deadline) {
+        deadline = addDays(successor.latestStart, -1);
+      }
+    }
+
+    entry.latestFinish = await nearestAvailable(worker, deadline, -1);
+    entry.latestStart = await spanAvailable(worker, entry.latestFinish, task.workingDays, -1);
+    entry.floatDays = await countAvailable(worker, entry.earliestStart, entry.latestStart);
+    entry.critical = entry.floatDays <= 0;
+  }
+
+  const result = ordered.map(task => scheduled.get(task.id)!);
+  return {
+    start: options.start,
+    finish,
+    tasks: result,
+    criticalPath: tracePath(result, finish),
+    overlaps: findOverlaps(result),
+  };
+}
@@ -0,0 +1,84 @@
+import { formatInTimeZone } from 'date-fns-tz';
+
+// Due dates in the shape each task tracker's API expects, so a due-date
+// tool's output can go straight into a create or update call. Trackers with
+// date-only fields get the calendar date in the user's timezone; the others
+// get the exact instant.
+
+export interface TrackerFormatter {
+  /** Display name, e.g. "Jira" */
+  name: string;
+  /** Fields to send, keyed exactly as the tracker's API names them */
+  format(dueDate: Date, timezone: string): Record<string, unknown>;
+  /** Where the fields go, e.g. "REST: POST /rest/api/3/issue" */
+  usage: string;
+}
+
+function calendarDay(dueDate: Date, timezone: string): string {
+  return formatInTimeZone(dueDate, timezone, 'yyyy-MM-dd');
+}
+
+function utcTimestamp(dueDate: Date): string {
+  return formatInTimeZone(dueDate, 'UTC', "yyyy-MM-dd'T'HH:mm:ss'Z'");
+}
+
+const formatters = new Map<string, TrackerFormatter>([
+  ['asana', {
+    name: 'Asana',
+    // due_at carries the time; due_on would drop it (send only one of the two)
+    format: dueDate => ({ due_at: utcTimestamp(dueDate) }),
+    usage: 'Task "data" object (POST /tasks, PUT /tasks/{task_gid}). Use due_on (YYYY-MM-DD) instead for an all-day task',
+  }],
+  ['jira', {
+    name: 'Jira',
+    format: (dueDate, timezone) => ({ fields: { duedate: calendarDay(dueDate, timezone) } }),
+    usage: 'Issue create/edit body (POST /rest/api/3/issue, PUT /rest/api/3/issue/{issueIdOrKey}). Due dates have no time',
+  }],
+  ['linear', {
+    name: 'Linear',
+    format: (dueDate, timezone) => ({ dueDate: calendarDay(dueDate, timezone) }),
+    usage: 'GraphQL IssueCreateInput / IssueUpdateInput (issueCreate, issueUpdate). dueDate is a TimelessDate',
+  }],
+  ['github', {
+    name: 'GitHub',
+    format: dueDate => ({ due_on: utcTimestamp(dueDate) }),
+    usage: 'Milestone body (POST /repos/{owner}/{repo}/milestones). Issues have no due date of their own: use a milestone, or a Projects date field set to the date part',
+  }],
+  ['trello', {
+    name: 'Trello',
+    format: dueDate => ({ due: dueDate.toISOString() }),
+    usage: 'Card fields (POST /1/cards, PUT /1/cards/{id})',
+  }],
+  ['clickup', {
+    name: 'ClickUp',
+    format: dueDate => ({ due_date: dueDate.getTime(), due_date_time: true }),
+    usage: 'Task body (POST /api/v2/list/{list_id}/task, PUT /api/v2/task/{task_id}). due_date is Unix milliseconds',
+  }],
+]);
+
+/**
+ * Add (or replace) the formatter for a tracker
+ */
+export function registerTrackerFormatter(target: string, formatter: TrackerFormatter): void {
+  formatters.set(target.toLowerCase(), formatter);
+}
+
+export function listTrackerTargets(): string[] {
+  return [...formatters.keys()];
+}
+
+/**
+ * A due date as the tracker's API fields. Throws for unknown targets.
+ */
+export function formatForTracker(
+  target: string,
+  dueDate: Date,
+  timezone: string
+): { target: string; tracker: string; fields: Record<string, unknown>; usage: string } {
+  const key = target.toLowerCase();
+  const formatter = formatters.get(key);
+  if (!formatter) {
+    throw new Error(`Unknown target: ${target}. Expected one of: ${listTrackerTargets().join(', ')}`);
+  }
+  return { target: key, tracker: formatter.name, fields: formatter.format(dueDate, timezone), usage: formatter.usage };
+}
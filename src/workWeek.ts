@@ -0,0 +1,115 @@
+import { config } from './config.js';
+import { resolveCalendar, CalendarOptions } from './bankHolidays.js';
+
+// Work weeks are sets of weekday numbers (0 = Sunday ... 6 = Saturday),
+// written as "mon-fri", "sun-thu" or "mon,tue,wed,thu".
+
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const DEFAULT_WORK_WEEK = 'mon-fri';
+
+// Calendars whose usual work week is not Monday to Friday, keyed by country or country-region
+const WORK_WEEK_DEFAULTS: Record<string, string> = {
+  'MY-KDH': 'sun-thu', // Kedah
+  'MY-KTN': 'sun-thu', // Kelantan
+  'MY-TRG': 'sun-thu', // Terengganu
+};
+
+function dayIndex(name: string, spec: string): number {
+  const index = DAY_NAMES.indexOf(name.trim().slice(0, 3).toLowerCase());
+  if (index === -1) {
+    throw new Error(`Invalid work week "${spec}": unknown day "${name.trim()}". Use e.g. "mon-fri", "sun-thu" or "mon,tue,wed,thu"`);
+  }
+  return index;
+}
+
+export function parseWorkWeek(spec: string): number[] {
+  const days = new Set<number>();
+
+  for (const part of spec.split(',')) {
+    const [from, to] = part.split('-');
+    const start = dayIndex(from, spec);
+    const end = to === undefined ? start : dayIndex(to, spec);
+
+    // Ranges may wrap past Saturday, e.g. "sat-wed"
+    for (let day = start; ; day = (day + 1) % 7) {
+      days.add(day);
+      if (day === end) break;
+    }
+  }
+
+  return [...days].sort((a, b) => a - b);
+}
+
+export function formatWorkWeek(workWeek: number[]): string {
+  if (workWeek.length === 7) {
+    return 'Mon–Sun';
+  }
+
+  // Start after the weekend, so "Sun–Thu" rather than "Mon–Thu, Sun"
+  const last = lastDayOfWorkWeek(workWeek);
+  const ordered = [1, 2, 3, 4, 5, 6, 7]
+    .map(offset => (last + offset) % 7)
+    .filter(day => workWeek.includes(day));
+  const runs: number[][] = [];
+
+  for (const day of ordered) {
+    const run = runs[runs.length - 1];
+    if (run && (run[run.length - 1] + 1) % 7 === day) {
+      run.push(day);
+    } else {
+      runs.push([day]);
+    }
+  }
+
+  return runs
+    .map(run => run.length > 2
+      ? `${DAY_LABELS[run[0]]}–${DAY_LABELS[run[run.length - 1]]}`
+      : run.map(day => DAY_LABELS[day]).join(', '))
+    .join(', ');
+}
+
+/**
+ * Work week for a call: explicit work_week, then WORK_WEEK (for the
+ * configured country only), then the country/region default, then Mon–Fri
+ */
+export function resolveWorkWeek(calendar: CalendarOptions = {}): number[] {
+  if (calendar.workWeek) {
+    return parseWorkWeek(calendar.workWeek);
+  }
+
+  const { country, region } = resolveCalendar(calendar);
+
+  if (config.workWeek && country === config.bankHolidayCountry) {
+    return parseWorkWeek(config.workWeek);
+  }
+
+  const spec = (region && WORK_WEEK_DEFAULTS[`${country}-${region}`]) ||
+    WORK_WEEK_DEFAULTS[country] ||
+    DEFAULT_WORK_WEEK;
+
+  return parseWorkWeek(spec);
+}
+
+/**
+ * The working day that starts the longest break, e.g. Friday for Mon–Fri
+ * or Thursday for Sun–Thu
+ */
+export function lastDayOfWorkWeek(workWeek: number[]): number {
+  let lastDay = workWeek[0];
+  let longestBreak = -1;
+
+  for (const day of [1, 2, 3, 4, 5, 6, 0].filter(candidate => workWeek.includes(candidate))) {
+    let gap = 0;
+    while (gap < 7 && !workWeek.includes((day + gap + 1) % 7)) {
+      gap++;
+    }
+    if (gap > longestBreak) {
+      longestBreak = gap;
+      lastDay = day;
+    }
+  }
+
+  return lastDay;
+}
@@ -0,0 +1,258 @@
+import { format } from 'date-fns';
+import { fetchBankHolidays, resolveCalendar, warmHolidayCache, CalendarOptions } from './bankHolidays.js';
+import { getCompanyCalendarDays } from './companyCalendar.js';
+import type { CalendarSelection } from './dateCalculations.js';
+import { resolveWorkWeek } from './workWeek.js';
+
+// Working-day arithmetic without walking the calendar day by day. A calendar
+// is its weekly pattern plus a sorted list of exceptions per year: days where
+// a public holiday or the company calendar changes what the pattern says.
+// Counting is then whole weeks from the pattern, corrected by the exceptions
+// in the range (a binary search over prefix sums).
+//
+// Days are numbered from 1970-01-01 so that arithmetic is not affected by
+// daylight saving changes.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Furthest a calculation may reach from its start date */
+export const MAX_WORKING_DAY_SPAN_YEARS = 100;
+const MAX_SPAN_DAYS = Math.round(MAX_WORKING_DAY_SPAN_YEARS * 365.25);
+
+interface YearExceptions {
+  /** Day numbers, ascending */
+  days: number[];
+  /** prefix[i]: sum over days before index i of +1 (worked against the pattern) or -1 (off) */
+  prefix: number[];
+  working: Map<number, boolean>;
+}
+
+export interface WorkingDayIndex {
+  isWorking(day: number): Promise<boolean>;
+  /** Working days from one day to another, both inclusive (0 when from > to) */
+  count(from: number, to: number): Promise<number>;
+  /** The nth working day after (step 1) or before (step -1) a day, not counting the day itself */
+  advance(from: number, n: number, step: 1 | -1): Promise<number>;
+}
+
+export function toDayNumber(date: Date): number {
+  return Math.round(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS);
+}
+
+/** Local midnight of a day number */
+export function fromDayNumber(day: number): Date {
+  const utc = new Date(day * DAY_MS);
+  return new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate());
+}
+
+function keyToDayNumber(key: string): number {
+  const [year, month, day] = key.split('-').map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / DAY_MS);
+}
+
+function weekday(day: number): number {
+  // 1970-01-01 was a Thursday
+  return (((day + 4) % 7) + 7) % 7;
+}
+
+function yearOf(day: number): number {
+  return new Date(day * DAY_MS).getUTCFullYear();
+}
+
+// Index of the first element >= value
+function lowerBound(values: number[], value: number): number {
+  let low = 0;
+  let high = values.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (values[mid] < value) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+// Working status of every day in a year where one calendar departs from its
+// work week, with the same precedence as explainDay: company working days,
+// then the work week, then public holidays and company closures
+async function calendarExceptions(calendar: CalendarOptions, pattern: boolean[], year: number): Promise<Map<number, boolean>> {
+  const { country } = resolveCalendar(calendar);
+  const holidays = await fetchBankHolidays(year, calendar);
+  const company = getCompanyCalendarDays(year, country);
+  const closed = new Set([...holidays, ...company.nonWorking]);
+  const worked = new Set(company.working);
+  const exceptions = new Map<number, boolean>();
+
+  for (const key of new Set([...closed, ...worked])) {
+    const day = keyToDayNumber(key);
+    const working = worked.has(key) || (pattern[weekday(day)] && !closed.has(key));
+    if (working !== pattern[weekday(day)]) {
+      exceptions.set(day, working);
+    }
+  }
+
+  return exceptions;
+}
+
+function workWeekPattern(calendar: CalendarOptions): boolean[] {
+  const workWeek = resolveWorkWeek(calendar);
+  return [0, 1, 2, 3, 4, 5, 6].map(day => workWeek.includes(day));
+}
+
+/**
+ * Days between two days (inclusive, ascending) where one calendar departs
+ * from its work week, read from the per-year exception lists
+ */
+export async function getExceptionDays(calendar: CalendarOptions, from: number, to: number): Promise<number[]> {
+  if (to - from > MAX_SPAN_DAYS) {
+    throw new Error(`Date range too long: ${to - from} days (maximum ${MAX_WORKING_DAY_SPAN_YEARS} years)`);
+  }
+
+  const pattern = workWeekPattern(calendar);
+  const days: number[] = [];
+  for (let year = yearOf(from); year <= yearOf(to); year++) {
+    const exceptions = await calendarExceptions(calendar, pattern, year);
+    days.push(...[...exceptions.keys()].filter(day => day >= from && day <= to).sort((a, b) => a - b));
+  }
+  return days;
+}
+
+/**
+ * Build the index for a single or combined calendar. Years are loaded as a
+ * calculation reaches them.
+ */
+export function createWorkingDayIndex(selection: CalendarSelection = {}): WorkingDayIndex {
+  const calendars = 'calendars' in selection ? selection.calendars : [selection];
+  const match = 'calendars' in selection ? selection.match : 'all';
+
+  if (calendars.length === 0) {
+    throw new Error('At least one calendar is required');
+  }
+
+  const patterns = calendars.map(workWeekPattern);
+  const combine = (values: boolean[]) => match === 'all' ? values.every(Boolean) : values.some(Boolean);
+  const pattern = [0, 1, 2, 3, 4, 5, 6].map(day => combine(patterns.map(single => single[day])));
+  const perWeek = pattern.filter(Boolean).length;
+  const years = new Map<number, Promise<YearExceptions>>();
+  const warmed = new Set<number>();
+
+  // Start generating (and verifying online) every year between two days
+  // before the calculation gets there
+  const warm = (from: number, to: number) => {
+    const pending: number[] = [];
+    for (let year = yearOf(Math.min(from, to)); year <= yearOf(Math.max(from, to)); year++) {
+      if (!warmed.has(year)) {
+        warmed.add(year);
+        pending.push(year);
+      }
+    }
+    if (pending.length > 0) {
+      calendars.forEach(calendar => warmHolidayCache(pending, calendar));
+    }
+  };
+
+  const loadYear = async (year: number): Promise<YearExceptions> => {
+    const perCalendar = await Promise.all(
+      calendars.map((calendar, index) => calendarExceptions(calendar, patterns[index], year))
+    );
+    const candidates = new Set(perCalendar.flatMap(exceptions => [...exceptions.keys()]));
+    const working = new Map<number, boolean>();
+
+    for (const day of candidates) {
+      const status = combine(perCalendar.map((exceptions, index) => exceptions.get(day) ?? patterns[index][weekday(day)]));
+      if (status !== pattern[weekday(day)]) {
+        working.set(day, status);
+      }
+    }
+
+    const days = [...working.keys()].sort((a, b) => a - b);
+    const prefix = [0];
+    days.forEach((day, index) => prefix.push(prefix[index] + (working.get(day) ? 1 : -1)));
+    return { days, prefix, working };
+  };
+
+  const exceptionsFor = (year: number): Promise<YearExceptions> => {
+    let loaded = years.get(year);
+    if (!loaded) {
+      loaded = loadYear(year);
+      years.set(year, loaded);
+    }
+    return loaded;
+  };
+
+  // Working days in a range from the weekly pattern alone
+  const patternCount = (from: number, to: number): number => {
+    const length = to - from + 1;
+    let total = Math.floor(length / 7) * perWeek;
+    for (let day = from + Math.floor(length / 7) * 7; day <= to; day++) {
+      if (pattern[weekday(day)]) total++;
+    }
+    return total;
+  };
+
+  const isWorking = async (day: number): Promise<boolean> => {
+    const exceptions = await exceptionsFor(yearOf(day));
+    return exceptions.working.get(day) ?? pattern[weekday(day)];
+  };
+
+  const count = async (from: number, to: number): Promise<number> => {
+    if (from > to) {
+      return 0;
+    }
+    if (to - from > MAX_SPAN_DAYS) {
+      throw new Error(`Date range too long: ${to - from} days (maximum ${MAX_WORKING_DAY_SPAN_YEARS} years)`);
+    }
+
+    warm(from, to);
+    let total = patternCount(from, to);
+    for (let year = yearOf(from); year <= yearOf(to); year++) {
+      const { days, prefix } = await exceptionsFor(year);
+      total += prefix[lowerBound(days, to + 1)] - prefix[lowerBound(days, from)];
+    }
+    return total;
+  };
+
+  const advance = async (from: number, n: number, step: 1 | -1): Promise<number> => {
+    if (!Number.isInteger(n) || n < 0) {
+      throw new Error(`Invalid number of working days: ${n}. Expected a whole number (0 or more)`);
+    }
+    let remaining = n;
+    let cursor = from;
+
+    while (remaining > 0) {
+      if (Math.abs(cursor - from) > MAX_SPAN_DAYS) {
+        throw new Error(
+          `No ${n} working days within ${MAX_WORKING_DAY_SPAN_YEARS} years of ${format(fromDayNumber(from), 'yyyy-MM-dd')}: ` +
+          'check the work week and company calendar'
+        );
+      }
+
+      // Generous reach (two calendar days per working day) so a walk into next year finds it ready
+      warm(cursor, cursor + step * Math.min(remaining * 2 + 14, MAX_SPAN_DAYS));
+
+      // Jump whole weeks while that cannot reach the target, halving the jump
+      // when exceptions would make it overshoot
+      let weeks = Math.min(Math.floor(remaining / Math.max(perWeek, 1)), Math.floor(MAX_SPAN_DAYS / 7));
+      while (weeks > 0) {
+        const end = cursor + step * weeks * 7;
+        const found = step === 1 ? await count(cursor + 1, end) : await count(end, cursor - 1);
+        if (found < remaining) {
+          cursor = end;
+          remaining -= found;
+          break;
+        }
+        weeks = Math.floor(weeks / 2);
+      }
+
+      if (weeks === 0) {
+        cursor += step;
+        if (await isWorking(cursor)) {
+          remaining--;
+        }
+      }
+    }
+
+    return cursor;
+  };
+
+  return { isWorking, count, advance };
+}
@@ -0,0 +1,207 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { formatInTimeZone, zonedTimeToUtc } from 'date-fns-tz';
+import { config } from './config.js';
+import { CalendarSelection, isWorkingDay } from './dateCalculations.js';
+
+// Business-hours arithmetic. Times of day are minutes after midnight in the
+// calendar's timezone; working days come from isWorkingDay, so weekends,
+// holidays and the company calendar are skipped.
+
+const MAX_DAYS_SCANNED = 3660;
+
+export interface WorkingHours {
+  /** Working periods of a day, e.g. 09:00–12:30 and 13:30–17:30 */
+  periods: Array<{ start: number; end: number }>;
+}
+
+export interface WorkingHoursOptions {
+  /** e.g. "09:00-17:30" */
+  hours?: string;
+  /** e.g. "12:30-13:30" */
+  lunchBreak?: string;
+}
+
+function parseTime(value: string, spec: string): number {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  // 24:00 is allowed as the end of the day, nothing later
+  if (!match || Number(match[1]) > 24 || Number(match[2]) > 59 || (Number(match[1]) === 24 && Number(match[2]) > 0)) {
+    throw new Error(`Invalid time "${value.trim()}" in "${spec}". Expected HH:mm, e.g. "09:00-17:30"`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+function parseTimeRange(spec: string): { start: number; end: number } {
+  const [from, to] = spec.split('-');
+  if (to === undefined) {
+    throw new Error(`Invalid time range "${spec}". Expected HH:mm-HH:mm, e.g. "09:00-17:30"`);
+  }
+  const range = { start: parseTime(from, spec), end: parseTime(to, spec) };
+  if (range.end <= range.start) {
+    throw new Error(`Invalid time range "${spec}": end must be after start`);
+  }
+  return range;
+}
+
+/**
+ * Working hours for a call: explicit options, then WORKING_HOURS / LUNCH_BREAK
+ */
+export function resolveWorkingHours(options: WorkingHoursOptions = {}): WorkingHours {
+  const day = parseTimeRange(options.hours || config.workingHours);
+  const lunchSpec = options.lunchBreak ?? config.lunchBreak;
+
+  if (!lunchSpec) {
+    return { periods: [day] };
+  }
+
+  const lunch = parseTimeRange(lunchSpec);
+  if (lunch.start < day.start || lunch.end > day.end) {
+    throw new Error(`Lunch break "${lunchSpec}" must fall within working hours`);
+  }
+
+  return {
+    periods: [
+      { start: day.start, end: lunch.start },
+      { start: lunch.end, end: day.end },
+    ].filter(period => period.end > period.start),
+  };
+}
+
+function formatMinutes(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+export function formatWorkingHours(hours: WorkingHours): string {
+  const first = hours.periods[0];
+  const last = hours.periods[hours.periods.length - 1];
+  const day = `${formatMinutes(first.start)}–${formatMinutes(last.end)}`;
+
+  return hours.periods.length > 1
+    ? `${day} (break ${formatMinutes(first.end)}–${formatMinutes(hours.periods[1].start)})`
+    : day;
+}
+
+/**
+ * Parse "now", a date, a local date-time or an ISO timestamp with offset.
+ * Values without an offset are read as wall-clock time in the timezone.
+ */
+export function parseTimestamp(value: string, timezone: string): Date {
+  if (value.toLowerCase() === 'now') {
+    return new Date();
+  }
+  const instant = zonedTimeToUtc(value, timezone);
+  if (isNaN(instant.getTime())) {
+    throw new Error(`Invalid timestamp: ${value}. Expected ISO format, e.g. 2026-10-19T14:00 or 2026-10-19T14:00:00+01:00`);
+  }
+  return instant;
+}
+
+export function formatTimestamp(instant: Date, timezone: string): string {
+  return formatInTimeZone(instant, timezone, "yyyy-MM-dd'T'HH:mm:ssXXX");
+}
+
+// Calendar date (local midnight) and minutes after midnight of an instant in a timezone
+function toWallClock(instant: Date, timezone: string): { day: Date; minutes: number } {
+  const [date, time] = formatInTimeZone(instant, timezone, 'yyyy-MM-dd HH:mm:ss').split(' ');
+  const [hours, minutes, seconds] = time.split(':').map(Number);
+  return { day: parseISO(date), minutes: hours * 60 + minutes + seconds / 60 };
+}
+
+function fromWallClock(day: Date, minutes: number, timezone: string): Date {
+  if (minutes >= 24 * 60) {
+    return fromWallClock(addDays(day, 1), minutes - 24 * 60, timezone);
+  }
+  const whole = Math.floor(minutes);
+  const seconds = Math.round((minutes - whole) * 60);
+  const time = `${formatMinutes(whole)}:${String(seconds).padStart(2, '0')}`;
+  return zonedTimeToUtc(`${format(day, 'yyyy-MM-dd')}T${time}`, timezone);
+}
+
+/**
+ * Working periods of one calendar date as instants, ignoring holidays
+ */
+export function getWorkingPeriods(
+  day: Date,
+  timezone: string,
+  workingHours: WorkingHours
+): Array<{ start: Date; end: Date }> {
+  return workingHours.periods.map(period => ({
+    start: fromWallClock(day, period.start, timezone),
+    end: fromWallClock(day, period.end, timezone),
+  }));
+}
+
+/**
+ * Move forward by a number of working hours, e.g. an "8 business hours" SLA
+ */
+export async function addWorkingHours(
+  start: Date,
+  hours: number,
+  timezone: string,
+  workingHours: WorkingHours,
+  calendar: CalendarSelection = {}
+): Promise<Date> {
+  if (!Number.isFinite(hours) || hours < 0) {
+    throw new Error('hours must be a number, zero or more');
+  }
+
+  let { day, minutes } = toWallClock(start, timezone);
+  let remaining = hours * 60;
+
+  for (let scanned = 0; scanned < MAX_DAYS_SCANNED; scanned++) {
+    if (await isWorkingDay(day, calendar)) {
+      for (const period of workingHours.periods) {
+        if (minutes >= period.end) continue;
+
+        const from = Math.max(minutes, period.start);
+        const available = period.end - from;
+
+        if (remaining <= available) {
+          return fromWallClock(day, from + remaining, timezone);
+        }
+        remaining -= available;
+        minutes = period.end;
+      }
+    }
+
+    day = addDays(day, 1);
+    minutes = 0;
+  }
+
+  throw new Error(`No working hours found within ${MAX_DAYS_SCANNED} days - check the calendar and working hours`);
+}
+
+/**
+ * Working hours between two instants; negative when end is before start
+ */
+export async function getWorkingHoursBetween(
+  start: Date,
+  end: Date,
+  timezone: string,
+  workingHours: WorkingHours,
+  calendar: CalendarSelection = {}
+): Promise<number> {
+  if (end < start) {
+    return -(await getWorkingHoursBetween(end, start, timezone, workingHours, calendar));
+  }
+
+  const from = toWallClock(start, timezone);
+  const to = toWallClock(end, timezone);
+  let total = 0;
+  let scanned = 0;
+
+  for (let day = from.day; day <= to.day; day = addDays(day, 1)) {
+    if (++scanned > MAX_DAYS_SCANNED) {
+      throw new Error(`Range too long: more than ${MAX_DAYS_SCANNED} days`);
+    }
+    if (!(await isWorkingDay(day, calendar))) continue;
+
+    const dayStart = day.getTime() === from.day.getTime() ? from.minutes : 0;
+    const dayEnd = day.getTime() === to.day.getTime() ? to.minutes : 24 * 60;
+
+    for (const period of workingHours.periods) {
+      total += Math.max(0, Math.min(period.end, dayEnd) - Math.max(period.start, dayStart));
+    }
+  }
+
+  return total / 60;
+}
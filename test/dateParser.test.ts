@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { formatDateISO } from '../src/dateCalculations.js';
+import { parseDateRequest } from '../src/dateParser.js';
+
+// Wednesday 14 October 2026
+const options = { today: new Date(2026, 9, 14), calendar: { country: 'GB' } };
+
+const parse = async (request: string) => {
+  const parsed = await parseDateRequest(request, options);
+  return { ...parsed, iso: formatDateISO(parsed.date) };
+};
+
+describe('parseDateRequest', () => {
+  it('reads weekdays', async () => {
+    assert.equal((await parse('Friday')).iso, '2026-10-16');
+    assert.equal((await parse('next Friday')).iso, '2026-10-23');
+  });
+
+  it('flags "next Friday" as ambiguous with the other reading', async () => {
+    const parsed = await parse('next Friday');
+    assert.equal(parsed.confidence, 'low');
+    assert.ok(parsed.alternatives.some(candidate => formatDateISO(candidate.date) === '2026-10-16'));
+  });
+
+  it('counts working days', async () => {
+    const parsed = await parse('in 3 working days');
+    assert.equal(parsed.iso, '2026-10-19');
+    assert.equal(parsed.pattern, 'in-working-days');
+  });
+
+  it('reads numeric dates day first', async () => {
+    assert.equal((await parse('03/04/2026')).iso, '2026-04-03');
+  });
+
+  it('reads the end of the month and nth weekdays of a month', async () => {
+    assert.equal((await parse('end of month')).iso, '2026-10-31');
+    assert.equal((await parse('first Monday of next month')).iso, '2026-11-02');
+  });
+
+  it('keeps a time of day', async () => {
+    const parsed = await parse('by 2pm Friday');
+    assert.equal(parsed.iso, '2026-10-16');
+    assert.deepEqual(parsed.time, { hours: 14, minutes: 0 });
+  });
+
+  it('rejects requests it cannot read', async () => {
+    await assert.rejects(parseDateRequest('sometime soonish', options));
+  });
+});
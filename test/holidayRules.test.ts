@@ -0,0 +1,125 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { HOLIDAY_DEFINITIONS } from '../src/holidayDefinitions.js';
+import {
+  fullMoonsInYear,
+  generateHolidays,
+  missingHolidayData,
+  orthodoxEaster,
+  toDateKey,
+  westernEaster,
+} from '../src/holidayRules.js';
+
+const datesOf = (country: string, year: number, region?: string) =>
+  generateHolidays(HOLIDAY_DEFINITIONS[country], year, region).map(holiday => holiday.date);
+
+describe('Easter computus', () => {
+  it('finds Western Easter Sunday', () => {
+    assert.equal(toDateKey(westernEaster(2024)), '2024-03-31');
+    assert.equal(toDateKey(westernEaster(2025)), '2025-04-20');
+    assert.equal(toDateKey(westernEaster(2026)), '2026-04-05');
+    assert.equal(toDateKey(westernEaster(2038)), '2038-04-25');
+  });
+
+  it('finds Orthodox Easter Sunday on the Gregorian calendar', () => {
+    assert.equal(toDateKey(orthodoxEaster(2024)), '2024-05-05');
+    assert.equal(toDateKey(orthodoxEaster(2025)), '2025-04-20');
+    assert.equal(toDateKey(orthodoxEaster(2026)), '2026-04-12');
+  });
+});
+
+describe('full moons', () => {
+  it('matches published full moon times to within a few minutes', () => {
+    const published = ['2024-01-25T17:54Z', '2024-04-23T23:49Z', '2024-08-19T18:26Z', '2024-12-15T09:02Z'];
+    const moons = fullMoonsInYear(2024);
+
+    assert.equal(moons.length, 12);
+    for (const instant of published) {
+      const expected = new Date(instant).getTime();
+      assert.ok(moons.some(moon => Math.abs(moon.getTime() - expected) < 5 * 60 * 1000), instant);
+    }
+  });
+});
+
+describe('published holiday lists', () => {
+  it('generates the GOV.UK England and Wales bank holidays', () => {
+    assert.deepEqual(datesOf('GB', 2025), [
+      '2025-01-01', '2025-04-18', '2025-04-21', '2025-05-05',
+      '2025-05-26', '2025-08-25', '2025-12-25', '2025-12-26',
+    ]);
+    // Boxing Day is a Saturday; GOV.UK lists only its substitute on the 28th
+    assert.deepEqual(datesOf('GB', 2026), [
+      '2026-01-01', '2026-04-03', '2026-04-06', '2026-05-04',
+      '2026-05-25', '2026-08-31', '2026-12-25', '2026-12-26', '2026-12-28',
+    ]);
+  });
+
+  it('includes one-off bank holidays', () => {
+    assert.ok(datesOf('GB', 2023).includes('2023-05-08'));
+    assert.ok(datesOf('GB', 2022).includes('2022-09-19'));
+  });
+
+  it('uses the published Sri Lankan Poya days', () => {
+    const poya = generateHolidays(HOLIDAY_DEFINITIONS.LK, 2025)
+      .filter(holiday => holiday.name.endsWith('Full Moon Poya Day') && !holiday.name.startsWith('Day following'))
+      .map(holiday => holiday.date);
+
+    assert.deepEqual(poya, [
+      '2025-01-13', '2025-02-12', '2025-03-13', '2025-04-12', '2025-05-12', '2025-06-10',
+      '2025-07-10', '2025-08-08', '2025-09-07', '2025-10-06', '2025-11-05', '2025-12-04',
+    ]);
+  });
+
+  it('names Poya days by lunar month, including adhi months', () => {
+    const names = generateHolidays(HOLIDAY_DEFINITIONS.LK, 2023)
+      .filter(holiday => holiday.date >= '2023-07-01' && holiday.date <= '2023-08-31')
+      .map(holiday => `${holiday.date} ${holiday.name}`);
+
+    assert.deepEqual(names, [
+      '2023-07-03 Esala Full Moon Poya Day',
+      '2023-08-01 Adhi Esala Full Moon Poya Day',
+      '2023-08-30 Nikini Full Moon Poya Day',
+    ]);
+  });
+
+  it('adds the day following Vesak', () => {
+    const vesak = generateHolidays(HOLIDAY_DEFINITIONS.LK, 2024).filter(holiday => holiday.name.includes('Vesak'));
+    assert.deepEqual(vesak.map(holiday => holiday.date), ['2024-05-23', '2024-05-24']);
+  });
+});
+
+describe('substitute days', () => {
+  it('moves GB holidays on a weekend to the next free weekday', () => {
+    const holidays = generateHolidays(HOLIDAY_DEFINITIONS.GB, 2027);
+    const substitutes = holidays.filter(holiday => holiday.substitute);
+
+    assert.deepEqual(
+      substitutes.map(holiday => [holiday.date, holiday.substituteFor]),
+      [['2027-12-27', 'Christmas Day'], ['2027-12-28', 'Boxing Day']]
+    );
+  });
+
+  it('observes a US Saturday New Year on the previous Friday', () => {
+    assert.ok(datesOf('US', 2021).includes('2021-12-31'));
+  });
+
+  it('does not move Sri Lankan holidays that fall on a weekend', () => {
+    assert.ok(!generateHolidays(HOLIDAY_DEFINITIONS.LK, 2025).some(holiday => holiday.substitute));
+  });
+});
+
+describe('missing holiday data', () => {
+  it('reports lunar tables without the year', () => {
+    const missing = missingHolidayData(HOLIDAY_DEFINITIONS.VN, 2028);
+    assert.ok(missing.some(entry => entry.name === 'Lunar New Year' && !entry.estimated));
+    assert.deepEqual(missingHolidayData(HOLIDAY_DEFINITIONS.VN, 2025), []);
+  });
+
+  it('reports Poya days outside the published years as estimated', () => {
+    assert.deepEqual(
+      missingHolidayData(HOLIDAY_DEFINITIONS.LK, 2030).filter(entry => entry.estimated).map(entry => entry.name),
+      ['Full Moon Poya Day']
+    );
+    assert.ok(!missingHolidayData(HOLIDAY_DEFINITIONS.LK, 2025).some(entry => entry.estimated));
+  });
+});
@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { formatDateISO } from '../src/dateCalculations.js';
+import { generateSchedule, parseRecurrence } from '../src/schedule.js';
+
+describe('parseRecurrence', () => {
+  it('reads an RRULE', () => {
+    const recurrence = parseRecurrence('RRULE:FREQ=MONTHLY;BYDAY=-1FR;COUNT=3');
+
+    assert.equal(recurrence.source, 'rrule');
+    assert.equal(recurrence.freq, 'monthly');
+    assert.equal(recurrence.interval, 1);
+    assert.deepEqual(recurrence.byDay, [{ weekday: 5, n: -1 }]);
+    assert.equal(recurrence.count, 3);
+  });
+
+  it('reads intervals, months and days of the month', () => {
+    const recurrence = parseRecurrence('FREQ=YEARLY;INTERVAL=2;BYMONTH=3,9;BYMONTHDAY=1,-1');
+
+    assert.equal(recurrence.interval, 2);
+    assert.deepEqual(recurrence.byMonth, [3, 9]);
+    assert.deepEqual(recurrence.byMonthDay, [1, -1]);
+  });
+
+  it('rejects rules it cannot read', () => {
+    assert.throws(() => parseRecurrence('whenever'), /Could not understand/);
+  });
+});
+
+describe('generateSchedule', () => {
+  it('moves occurrences off weekends and holidays', async () => {
+    const schedule = await generateSchedule('FREQ=MONTHLY;BYMONTHDAY=25', {
+      start: new Date(2025, 9, 1),
+      end: new Date(2026, 0, 31),
+      calendar: { country: 'GB' },
+    });
+
+    assert.deepEqual(
+      schedule.occurrences.map(occurrence => [formatDateISO(occurrence.original), formatDateISO(occurrence.date)]),
+      [
+        ['2025-10-25', '2025-10-27'],
+        ['2025-11-25', '2025-11-25'],
+        ['2025-12-25', '2025-12-29'],
+        ['2026-01-25', '2026-01-26'],
+      ]
+    );
+    assert.match(schedule.occurrences[2].reason || '', /Christmas Day/);
+  });
+
+  it('drops non-working occurrences with skip', async () => {
+    const schedule = await generateSchedule('FREQ=MONTHLY;BYMONTHDAY=25', {
+      start: new Date(2025, 9, 1),
+      end: new Date(2026, 0, 31),
+      adjustment: 'skip',
+      calendar: { country: 'GB' },
+    });
+
+    assert.deepEqual(schedule.occurrences.map(occurrence => formatDateISO(occurrence.date)), ['2025-11-25']);
+    assert.equal(schedule.skipped.length, 3);
+  });
+
+  it('stops after COUNT occurrences', async () => {
+    const schedule = await generateSchedule('FREQ=WEEKLY;BYDAY=MO;COUNT=2', {
+      start: new Date(2025, 2, 3),
+      end: new Date(2025, 11, 31),
+      calendar: { country: 'GB' },
+    });
+
+    assert.deepEqual(schedule.occurrences.map(occurrence => formatDateISO(occurrence.date)), ['2025-03-03', '2025-03-10']);
+  });
+});
@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { formatDateISO } from '../src/dateCalculations.js';
+import { scheduleTimeline, ScheduledTask } from '../src/timeline.js';
+
+const people = [
+  { name: 'Ana', calendar: { country: 'GB' } },
+  { name: 'Nimal', calendar: { country: 'GB' } },
+];
+// Monday 3 March 2025
+const start = new Date(2025, 2, 3);
+
+const byId = (tasks: ScheduledTask[]) => new Map(tasks.map(task => [task.id, task]));
+
+describe('scheduleTimeline', () => {
+  it('schedules dependencies finish-to-start with float', async () => {
+    const timeline = await scheduleTimeline([
+      { id: 'design', workingDays: 5, assignee: 'Ana' },
+      { id: 'copy', workingDays: 3, assignee: 'Nimal' },
+      { id: 'build', workingDays: 2, dependsOn: ['design', 'copy'], assignee: 'Nimal' },
+    ], people, { start });
+    const tasks = byId(timeline.tasks);
+
+    assert.equal(formatDateISO(timeline.finish), '2025-03-11');
+    assert.equal(formatDateISO(tasks.get('build')!.earliestStart), '2025-03-10');
+    assert.equal(tasks.get('build')!.drivenBy, 'design');
+    assert.equal(tasks.get('design')!.floatDays, 0);
+    assert.equal(tasks.get('copy')!.floatDays, 2);
+    assert.equal(tasks.get('copy')!.critical, false);
+  });
+
+  it('traces the critical path back through driving dependencies', async () => {
+    const timeline = await scheduleTimeline([
+      { id: 'a', workingDays: 3 },
+      { id: 'b', workingDays: 3 },
+      { id: 'c', workingDays: 2, dependsOn: ['a'] },
+      { id: 'd', workingDays: 1, dependsOn: ['b', 'c'] },
+    ], [], { start, calendar: { country: 'GB' } });
+
+    assert.deepEqual(timeline.criticalPath, ['a', 'c', 'd']);
+    // b finishes early but has float, so it is not on the path
+    assert.equal(byId(timeline.tasks).get('b')!.critical, false);
+  });
+
+  it('pushes tasks past public holidays and leave, and says why', async () => {
+    const timeline = await scheduleTimeline([
+      { id: 'release', workingDays: 3, assignee: 'Ana' },
+    ], [{ name: 'Ana', calendar: { country: 'GB' }, leave: ['2025-04-22'] }], { start: new Date(2025, 3, 17) });
+    const release = timeline.tasks[0];
+
+    // Thursday 17, then Good Friday, Easter Monday and a day of leave
+    assert.equal(formatDateISO(release.earliestFinish), '2025-04-24');
+    assert.deepEqual(release.delays.map(delay => delay.source), ['public-holiday', 'public-holiday', 'leave']);
+  });
+
+  it('reports people booked on two tasks at once', async () => {
+    const timeline = await scheduleTimeline([
+      { id: 'a', workingDays: 5, assignee: 'Ana' },
+      { id: 'b', workingDays: 3, assignee: 'Ana' },
+      { id: 'c', workingDays: 2, dependsOn: ['a'], assignee: 'Ana' },
+    ], people, { start });
+
+    assert.deepEqual(timeline.overlaps, [{ assignee: 'Ana', tasks: ['a', 'b'] }]);
+  });
+
+  it('rejects circular dependencies', async () => {
+    await assert.rejects(
+      scheduleTimeline([
+        { id: 'a', workingDays: 1, dependsOn: ['b'] },
+        { id: 'b', workingDays: 1, dependsOn: ['a'] },
+      ], [], { start }),
+      /Circular dependency/
+    );
+  });
+});
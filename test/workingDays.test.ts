@@ -0,0 +1,117 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  calculateWorkingDays,
+  explainDay,
+  formatDateISO,
+  getWorkingDaysBetween,
+  rollToWorkingDay,
+} from '../src/dateCalculations.js';
+import { createWorkingDayIndex, fromDayNumber, toDayNumber } from '../src/workingDayIndex.js';
+
+const GB = { country: 'GB' };
+const LK = { country: 'LK' };
+
+describe('working day counts', () => {
+  it('counts a known year of working days', async () => {
+    // 261 weekdays less the 8 bank holidays (GB) and 21 weekday holidays (LK)
+    assert.equal(await getWorkingDaysBetween(new Date(2025, 0, 1), new Date(2025, 11, 31), GB), 253);
+    assert.equal(await getWorkingDaysBetween(new Date(2025, 0, 1), new Date(2025, 11, 31), LK), 240);
+  });
+
+  it('counts both ends by default and can leave them out', async () => {
+    const monday = new Date(2025, 2, 3);
+    const friday = new Date(2025, 2, 7);
+
+    assert.equal(await getWorkingDaysBetween(monday, friday, GB), 5);
+    assert.equal(await getWorkingDaysBetween(monday, friday, GB, { includeEnd: false }), 4);
+    assert.equal(await getWorkingDaysBetween(friday, monday, GB), -5);
+  });
+
+  it('counts only days worked in every calendar of a combined selection', async () => {
+    const selection = { calendars: [GB, LK], match: 'all' as const };
+    // 10 weekdays less Sinhala and Tamil New Year (LK), Good Friday (both) and Easter Monday (GB)
+    assert.equal(await getWorkingDaysBetween(new Date(2025, 3, 14), new Date(2025, 3, 25), selection), 7);
+  });
+});
+
+describe('adding working days', () => {
+  it('skips weekends and holidays', async () => {
+    // Thursday before Easter + 1 → the Tuesday after Easter Monday
+    const result = await calculateWorkingDays(new Date(2025, 3, 17), 1, 'forward', GB);
+    assert.equal(formatDateISO(result), '2025-04-22');
+  });
+
+  it('counts backwards', async () => {
+    const result = await calculateWorkingDays(new Date(2025, 11, 29), 3, 'backward', GB);
+    assert.equal(formatDateISO(result), '2025-12-22');
+  });
+
+  it('counts a working start date as day 1 with includeStart', async () => {
+    const result = await calculateWorkingDays(new Date(2025, 2, 3), 5, 'forward', GB, { includeStart: true });
+    assert.equal(formatDateISO(result), '2025-03-07');
+  });
+
+  it('rejects a fractional or missing number of days', async () => {
+    await assert.rejects(calculateWorkingDays(new Date(2025, 2, 3), 2.5, 'forward', GB), /whole number/);
+    await assert.rejects(calculateWorkingDays(new Date(2025, 2, 3), NaN, 'forward', GB), /whole number/);
+  });
+});
+
+describe('rolling and explaining days', () => {
+  it('rolls a holiday to a working day', async () => {
+    const christmas = new Date(2025, 11, 25);
+    assert.equal(formatDateISO(await rollToWorkingDay(christmas, 'following', GB)), '2025-12-29');
+    assert.equal(formatDateISO(await rollToWorkingDay(christmas, 'preceding', GB)), '2025-12-24');
+  });
+
+  it('keeps the month with modified-following', async () => {
+    // Saturday 31 May 2025: the following working day is in June
+    assert.equal(formatDateISO(await rollToWorkingDay(new Date(2025, 4, 31), 'modified-following', GB)), '2025-05-30');
+  });
+
+  it('explains why a day is not worked', async () => {
+    const status = await explainDay(new Date(2025, 4, 12), LK);
+    assert.equal(status.working, false);
+    assert.equal(status.source, 'public-holiday');
+    assert.match(status.reason, /Vesak/);
+  });
+});
+
+describe('working day index', () => {
+  const brute = async (calendar: typeof GB, from: number, to: number) => {
+    let total = 0;
+    for (let day = from; day <= to; day++) {
+      if ((await explainDay(fromDayNumber(day), calendar)).working) total++;
+    }
+    return total;
+  };
+
+  it('converts between dates and day numbers', () => {
+    const date = new Date(2024, 1, 29);
+    assert.equal(formatDateISO(fromDayNumber(toDayNumber(date))), '2024-02-29');
+    assert.equal(toDayNumber(new Date(2025, 0, 1)) - toDayNumber(new Date(2024, 0, 1)), 366);
+  });
+
+  it('counts the same as checking every day', async () => {
+    const index = createWorkingDayIndex(LK);
+    const start = toDayNumber(new Date(2024, 11, 1));
+    for (const [from, to] of [[0, 0], [0, 6], [3, 45], [10, 200], [30, 400]]) {
+      assert.equal(await index.count(start + from, start + to), await brute(LK, start + from, start + to), `${from}..${to}`);
+    }
+  });
+
+  it('advances to a working day with exactly n working days in between', async () => {
+    const index = createWorkingDayIndex(LK);
+    const start = toDayNumber(new Date(2025, 3, 10));
+    for (const n of [1, 5, 22, 130]) {
+      const forward = await index.advance(start, n, 1);
+      assert.ok(await index.isWorking(forward));
+      assert.equal(await index.count(start + 1, forward), n);
+
+      const backward = await index.advance(start, n, -1);
+      assert.ok(await index.isWorking(backward));
+      assert.equal(await index.count(backward, start - 1), n);
+    }
+  });
+});